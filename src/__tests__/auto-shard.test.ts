@@ -0,0 +1,549 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AutoShardCoordinator, AutoShardRunner, runExitCode } from '../auto-shard';
+import { TestResultsCollector } from '../test-results';
+import { RunSummary } from '../types';
+
+// Tests get their own process.env, which execSync would not pass on to `jest --listTests` and `--showConfig`
+jest.mock('child_process', () => {
+  const actual = jest.requireActual('child_process');
+  return { ...actual, execSync: (command: string, options?: object) => actual.execSync(command, { env: process.env, ...options }) };
+});
+
+/**
+ * Stands in for `npx` on the PATH. `npx jest` runs no tests: it writes the
+ * artifacts a shard's reporter would, failing each file for as many runs as
+ * `failures` says, and logs every call with the files it was given.
+ */
+const FAKE_NPX = `#!/usr/bin/env node
+const fs = require('fs');
+const path = require('path');
+
+const args = process.argv.slice(3);
+const script = JSON.parse(fs.readFileSync(process.env.FAKE_JEST_SCRIPT, 'utf8'));
+const logFile = process.env.FAKE_JEST_LOG;
+const calls = fs.existsSync(logFile)
+  ? fs.readFileSync(logFile, 'utf8').split('\\n').filter(Boolean).map(line => JSON.parse(line))
+  : [];
+
+const changed = args.some(arg => arg.startsWith('--changedSince') || arg === '--onlyChanged');
+
+// Output to a pipe is written asynchronously, so these set exitCode rather than exit
+if (args.includes('--showConfig')) {
+  const config = args.includes('--config') ? (script.configFiles || {})[args[args.indexOf('--config') + 1]] : undefined;
+  const globalConfig = { rootDir: process.cwd(), coverageReporters: ['json'], ...(config || script.globalConfig) };
+  console.log(JSON.stringify({ globalConfig, configs: [] }));
+  return;
+}
+
+if (args.includes('--listTests')) {
+  if (script.listError) {
+    console.error(script.listError);
+    process.exitCode = 1;
+    return;
+  }
+  for (const file of changed ? script.changed : script.tests) {
+    console.log(path.resolve(file));
+  }
+  return;
+}
+
+const shard = Number(process.env.JEST_SHARD_INDEX);
+const byPath = args.indexOf('--runTestsByPath');
+let files;
+if (byPath !== -1) {
+  files = args.slice(byPath + 1);
+  files = files.slice(0, files.findIndex(arg => arg.startsWith('--')));
+} else {
+  const [index, total] = args[args.indexOf('--shard') + 1].split('/').map(Number);
+  const quarantined = process.env.JEST_SHARD_QUARANTINE_FILE
+    ? JSON.parse(fs.readFileSync(process.env.JEST_SHARD_QUARANTINE_FILE, 'utf8'))
+    : [];
+  files = (changed ? script.changed : script.tests).filter(file => !quarantined.includes(file)).sort().filter((_, i) => i % total === index - 1);
+}
+
+fs.appendFileSync(logFile, JSON.stringify({
+  shard,
+  args,
+  files,
+  cwd: process.cwd(),
+  retry: process.env.JEST_SHARD_RETRY,
+  quarantinePass: process.env.JEST_SHARD_QUARANTINE_PASS === 'true'
+}) + '\\n');
+
+if ((script.hang || []).includes(shard) && byPath === -1) {
+  // A hung shard whose own child must go down with it
+  // It lists both processes once it is ready to record the signal
+  const marker = path.resolve('terminated-' + shard);
+  const pids = path.resolve('hung-' + shard + '.pids');
+  require('child_process').spawn(process.execPath, ['-e',
+    'const fs = require("fs");' +
+    'process.on("SIGTERM", () => { fs.writeFileSync(' + JSON.stringify(marker) + ', ""); process.exit(0); });' +
+    'fs.writeFileSync(' + JSON.stringify(pids) + ', JSON.stringify([process.ppid, process.pid]));' +
+    'setInterval(() => {}, 1000);'
+  ], { stdio: 'ignore' });
+  setInterval(() => {}, 1000);
+  return;
+}
+
+const runs = file => calls.filter(call => call.files.includes(file)).length;
+const outcomes = files.map(file => {
+  const failed = runs(file) < ((script.failures || {})[file] || 0);
+  return {
+    path: file,
+    status: failed ? 'failed' : 'passed',
+    duration: 10,
+    numPassingTests: failed ? 0 : 1,
+    numFailingTests: failed ? 1 : 0,
+    numPendingTests: 0,
+    testCases: [{ title: 'works', fullName: 'works', status: failed ? 'failed' : 'passed', duration: 10, failureMessages: [] }]
+  };
+});
+
+if (process.env.JEST_SHARD_QUARANTINE_PASS !== 'true') {
+  const dir = path.resolve(process.env.JEST_SHARD_COVERAGE_DIR || 'coverage-shards');
+  const resultsFile = path.join(dir, 'results-shard-' + shard + '.json');
+  fs.mkdirSync(dir, { recursive: true });
+
+  let recorded = outcomes;
+  if (process.env.JEST_SHARD_RETRY === 'files') {
+    const previous = JSON.parse(fs.readFileSync(resultsFile, 'utf8')).files;
+    recorded = [...previous.filter(file => !files.includes(file.path)), ...outcomes];
+  } else if (script.coverage !== false) {
+    const source = 'src/shard-' + shard + '.ts';
+    fs.writeFileSync(path.join(dir, 'coverage-shard-' + shard + '.json'), JSON.stringify({
+      [source]: {
+        path: source,
+        statementMap: { 0: { start: { line: 1, column: 0 }, end: { line: 1, column: 10 } } },
+        fnMap: {},
+        branchMap: {},
+        s: { 0: script.coverageHits === undefined ? 1 : script.coverageHits },
+        f: {},
+        b: {}
+      }
+    }));
+  }
+
+  fs.writeFileSync(resultsFile, JSON.stringify({
+    schemaVersion: 1,
+    timestamp: new Date().toISOString(),
+    shard: { index: shard, total: Number(process.env.JEST_TOTAL_SHARDS) },
+    files: recorded
+  }));
+}
+
+process.exitCode = outcomes.some(outcome => outcome.status === 'failed') ? 1 : 0;
+`;
+
+interface FakeJestScript {
+  /** Project-relative test files `--listTests` prints */
+  tests: string[];
+  /** What `--listTests --changedSince` prints, and what shards with it run */
+  changed?: string[];
+  /** `--listTests` fails with this on stderr */
+  listError?: string;
+  /** Number of runs each file fails before it passes */
+  failures?: Record<string, number>;
+  /** Shards that never finish */
+  hang?: number[];
+  coverage?: boolean;
+  coverageHits?: number;
+  globalConfig?: Record<string, unknown>;
+  /** What `--showConfig --config <file>` prints instead of `globalConfig` */
+  configFiles?: Record<string, Record<string, unknown>>;
+}
+
+interface FakeJestCall {
+  shard: number;
+  args: string[];
+  files: string[];
+  cwd: string;
+  retry?: string;
+  quarantinePass: boolean;
+}
+
+describe('jest-shard run', () => {
+  let projectRoot: string;
+  let binDir: string;
+  let cwd: string;
+  let coordinator: AutoShardCoordinator | undefined;
+  const env = { ...process.env };
+  const spies: jest.SpyInstance[] = [];
+  let consoleSpies: jest.SpyInstance[] = [];
+
+  const fakeJest = (script: FakeJestScript) => {
+    fs.writeFileSync(process.env.FAKE_JEST_SCRIPT!, JSON.stringify(script));
+  };
+
+  const calls = (): FakeJestCall[] => fs.existsSync(process.env.FAKE_JEST_LOG!)
+    ? fs.readFileSync(process.env.FAKE_JEST_LOG!, 'utf8').split('\n').filter(Boolean).map(line => JSON.parse(line))
+    : [];
+
+  const createCoordinator = (config: Partial<ConstructorParameters<typeof AutoShardCoordinator>[0]> = {}) => {
+    coordinator = new AutoShardCoordinator({
+      totalShards: 2,
+      testPaths: ['tests/a.test.ts', 'tests/b.test.ts', 'tests/c.test.ts'].map(file => path.join(projectRoot, file)),
+      projectRoot,
+      strategy: 'round-robin',
+      ...config
+    });
+    return coordinator;
+  };
+
+  // Where the coordinator keeps its locks and status, cleaned up at the end of a run
+  const lockDirHash = () => require('crypto').createHash('md5').update(projectRoot).digest('hex').substring(0, 8);
+
+  const printed = () => consoleSpies.flatMap(spy => spy.mock.calls.map(call => call.join(' ')));
+
+  // Only the run's own handler: emitting the signal would reach Jest's too
+  const interrupt = (listenersBefore: Function[]) => process.listeners('SIGINT')
+    .filter(listener => !listenersBefore.includes(listener))
+    .forEach(listener => (listener as NodeJS.SignalsListener)('SIGINT'));
+
+  const waitForFile = async (file: string) => {
+    for (const deadline = Date.now() + 5000; !fs.existsSync(file) && Date.now() < deadline;) {
+      await new Promise(resolve => setTimeout(resolve, 50));
+    }
+    return fs.existsSync(file);
+  };
+
+  beforeEach(() => {
+    projectRoot = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'jest-shard-run-')));
+    binDir = fs.mkdtempSync(path.join(os.tmpdir(), 'jest-shard-bin-'));
+    for (const file of ['a', 'b', 'c', 'flaky'].map(name => `tests/${name}.test.ts`)) {
+      fs.mkdirSync(path.dirname(path.join(projectRoot, file)), { recursive: true });
+      fs.writeFileSync(path.join(projectRoot, file), '');
+    }
+    fs.writeFileSync(path.join(binDir, 'npx'), FAKE_NPX, { mode: 0o755 });
+
+    for (const name of Object.keys(process.env).filter(name => name.startsWith('JEST_SHARD_') || name === 'JEST_AUTO_SHARD')) {
+      delete process.env[name];
+    }
+    process.env.PATH = `${binDir}${path.delimiter}${env.PATH}`;
+    process.env.FAKE_JEST_SCRIPT = path.join(binDir, 'script.json');
+    process.env.FAKE_JEST_LOG = path.join(binDir, 'calls.jsonl');
+
+    cwd = process.cwd();
+    process.chdir(projectRoot);
+    consoleSpies = (['log', 'warn', 'error'] as const).map(method => jest.spyOn(console, method).mockImplementation(() => {}));
+    spies.push(...consoleSpies);
+  });
+
+  afterEach(() => {
+    // Hung shards the run failed to kill would outlive the test
+    for (const file of fs.readdirSync(projectRoot).filter(name => /^hung-\d+\.pids$/.test(name))) {
+      for (const pid of JSON.parse(fs.readFileSync(path.join(projectRoot, file), 'utf8'))) {
+        try {
+          process.kill(pid, 'SIGKILL');
+        } catch {
+          // Already gone
+        }
+      }
+    }
+    coordinator?.cleanup();
+    coordinator = undefined;
+    spies.splice(0).forEach(spy => spy.mockRestore());
+    process.chdir(cwd);
+    for (const name of Object.keys(process.env).filter(name => !(name in env))) {
+      delete process.env[name];
+    }
+    Object.assign(process.env, env);
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+    fs.rmSync(binDir, { recursive: true, force: true });
+  });
+
+  describe('retries and quarantine', () => {
+    it('should retry only the failing files from the project root and log those that pass as flaky', async () => {
+      fakeJest({ tests: ['tests/a.test.ts', 'tests/b.test.ts', 'tests/c.test.ts'], failures: { 'tests/c.test.ts': 1 } });
+      // Retried paths are project-relative, wherever the runner was started
+      process.chdir(os.tmpdir());
+
+      const shards = await createCoordinator({ maxRetries: 1, flakeLogFile: path.join(projectRoot, 'flakes.json') }).runAllShards();
+
+      expect(shards.map(shard => [shard.shardId, shard.status, shard.attempts])).toEqual([[1, 'completed', 2], [2, 'completed', 1]]);
+
+      const retry = calls().find(call => call.retry === 'files')!;
+      expect(retry).toMatchObject({ shard: 1, files: ['tests/c.test.ts'], cwd: projectRoot });
+      expect(calls().every(call => call.cwd === projectRoot)).toBe(true);
+
+      const flakes = JSON.parse(fs.readFileSync(path.join(projectRoot, 'flakes.json'), 'utf8')).flakes;
+      expect(flakes).toEqual([{ path: 'tests/c.test.ts', shard: 1, attempts: 2, timestamp: expect.any(String) }]);
+    }, 30000);
+
+    it('should retry files whose paths a shell would interpret', async () => {
+      const awkward = 'tests/(group) $HOME & [x]/flaky.test.ts';
+      fs.mkdirSync(path.join(projectRoot, path.dirname(awkward)), { recursive: true });
+      fs.writeFileSync(path.join(projectRoot, awkward), '');
+      fakeJest({ tests: [awkward, 'tests/a.test.ts'], failures: { [awkward]: 1 } });
+
+      const shards = await createCoordinator({
+        totalShards: 1,
+        testPaths: [awkward, 'tests/a.test.ts'].map(file => path.join(projectRoot, file)),
+        maxRetries: 1
+      }).runAllShards();
+
+      expect(shards).toEqual([expect.objectContaining({ shardId: 1, status: 'completed', attempts: 2 })]);
+      expect(calls().find(call => call.retry === 'files')).toMatchObject({ files: [awkward] });
+    }, 30000);
+
+    it('should fail a shard whose files keep failing after the last retry', async () => {
+      fakeJest({ tests: ['tests/a.test.ts', 'tests/b.test.ts', 'tests/c.test.ts'], failures: { 'tests/b.test.ts': 99 } });
+
+      const shards = await createCoordinator({ maxRetries: 1, flakeLogFile: path.join(projectRoot, 'flakes.json') }).runAllShards();
+
+      expect(shards.map(shard => [shard.shardId, shard.status, shard.attempts])).toEqual([[1, 'completed', 1], [2, 'failed', 2]]);
+      expect(fs.existsSync(path.join(projectRoot, 'flakes.json'))).toBe(false);
+    }, 30000);
+
+    it('should leave quarantined files to a separate pass that does not write shard artifacts', async () => {
+      fs.writeFileSync(path.join(projectRoot, 'quarantine.json'), JSON.stringify(['tests/flaky.test.ts']));
+      fakeJest({
+        tests: ['tests/a.test.ts', 'tests/b.test.ts', 'tests/flaky.test.ts'],
+        failures: { [path.join(projectRoot, 'tests/flaky.test.ts')]: 99 }
+      });
+
+      const run = createCoordinator({
+        testPaths: ['a', 'b', 'flaky'].map(name => path.join(projectRoot, `tests/${name}.test.ts`)),
+        quarantineFile: 'quarantine.json'
+      });
+      const shards = await run.runAllShards();
+      const exitCode = await run.runQuarantined();
+
+      expect(shards.every(shard => shard.status === 'completed')).toBe(true);
+      expect(calls().filter(call => !call.quarantinePass).flatMap(call => call.files).sort())
+        .toEqual(['tests/a.test.ts', 'tests/b.test.ts']);
+      expect(calls().filter(call => call.quarantinePass)).toEqual([
+        expect.objectContaining({ files: [path.join(projectRoot, 'tests/flaky.test.ts')], cwd: projectRoot })
+      ]);
+      expect(exitCode).toBe(1);
+    }, 30000);
+  });
+
+  describe('timeouts', () => {
+    it('should kill a hung shard with everything it started and fail it', async () => {
+      fakeJest({ tests: ['tests/a.test.ts', 'tests/b.test.ts', 'tests/c.test.ts'], hang: [2] });
+      const run = createCoordinator({ timeout: 1500 });
+
+      const shards = await run.runAllShards();
+
+      expect(shards[0]).toMatchObject({ shardId: 1, status: 'completed', exitCode: 0 });
+      expect(shards[1]).toMatchObject({ shardId: 2, status: 'failed', exitCode: null, reason: 'timeout' });
+      expect(run.getShardStatus()).toMatchObject({ completed: 1, failed: 1, running: 0 });
+      // The shard's own child got the signal too, not just the process npx started
+      expect(await waitForFile(path.join(projectRoot, 'terminated-2'))).toBe(true);
+    }, 30000);
+
+    it('should stop the run at the total timeout and fail shards that never started', async () => {
+      fakeJest({ tests: ['tests/a.test.ts', 'tests/b.test.ts', 'tests/c.test.ts'], hang: [1] });
+      const run = createCoordinator({ totalShards: 3, maxParallel: 1, totalTimeout: 1500 });
+
+      const shards = await run.runAllShards();
+
+      expect(shards.map(shard => [shard.shardId, shard.status, shard.reason, shard.attempts])).toEqual([
+        [1, 'failed', 'timeout', 1],
+        [2, 'failed', 'timeout', 0],
+        [3, 'failed', 'timeout', 0]
+      ]);
+      expect(calls().map(call => call.shard)).toEqual([1]);
+      expect(await waitForFile(path.join(projectRoot, 'terminated-1'))).toBe(true);
+    }, 30000);
+
+    it('should not retry a failed shard once the run is stopped', async () => {
+      fakeJest({ tests: ['tests/a.test.ts', 'tests/b.test.ts', 'tests/c.test.ts'], failures: { 'tests/b.test.ts': 1 } });
+      const run = createCoordinator({ maxRetries: 1 });
+      const listeners = process.listeners('SIGINT');
+      const readShardResult = TestResultsCollector.prototype.readShardResult;
+      let stopped = false;
+      // The run is stopped while the failed shard's results are read for its retry
+      spies.push(jest.spyOn(TestResultsCollector.prototype, 'readShardResult').mockImplementation(function (
+        this: TestResultsCollector,
+        shardId: number
+      ) {
+        if (!stopped) {
+          stopped = true;
+          interrupt(listeners);
+        }
+        return readShardResult.call(this, shardId);
+      }));
+
+      const shards = await run.runAllShards();
+
+      expect(stopped).toBe(true);
+      expect(run.interruptedBy).toBe('SIGINT');
+      expect(shards[1]).toMatchObject({ shardId: 2, status: 'failed', exitCode: 1, attempts: 1 });
+      expect(calls().filter(call => call.retry === 'files')).toEqual([]);
+    }, 30000);
+  });
+
+  describe('AutoShardRunner', () => {
+    const runner = (config: ConstructorParameters<typeof AutoShardRunner>[0] = {}) => new AutoShardRunner({
+      totalShards: 2,
+      projectRoot,
+      strategy: 'round-robin',
+      ...config
+    });
+
+    it('should add up the shards\' results into a summary that exits 0', async () => {
+      fakeJest({ tests: ['tests/a.test.ts', 'tests/b.test.ts', 'tests/c.test.ts'] });
+      const run = runner();
+      const completed: RunSummary[] = [];
+      run.on('run:complete', summary => completed.push(summary));
+
+      const summary = await run.run();
+
+      expect(summary).toMatchObject({
+        success: true,
+        totalShards: 2,
+        tests: { total: 3, passed: 3, failed: 0, pending: 0 },
+        quarantineExitCode: 0,
+        testListCheck: { expected: 3, ran: 3, missing: [], duplicated: [], unexpected: [] },
+        coverageError: undefined,
+        thresholdViolations: undefined
+      });
+      expect(summary.shards.map(shard => [shard.shardId, shard.status, shard.tests?.total])).toEqual([
+        [1, 'completed', 2],
+        [2, 'completed', 1]
+      ]);
+      expect(completed).toEqual([summary]);
+      expect(printed()).toContainEqual(expect.stringContaining('📋 Run summary'));
+      expect(runExitCode(summary)).toBe(0);
+    }, 30000);
+
+    it('should fail the summary of a run with a failing shard and exit 1', async () => {
+      fakeJest({ tests: ['tests/a.test.ts', 'tests/b.test.ts', 'tests/c.test.ts'], failures: { 'tests/b.test.ts': 99 } });
+
+      const summary = await runner().run();
+
+      expect(summary).toMatchObject({ success: false, tests: { total: 3, passed: 2, failed: 1, pending: 0 } });
+      expect(summary.shards.map(shard => [shard.shardId, shard.status, shard.exitCode])).toEqual([
+        [1, 'completed', 0],
+        [2, 'failed', 1]
+      ]);
+      // Only complete runs are checked for files run exactly once
+      expect(summary.testListCheck).toBeUndefined();
+      expect(runExitCode(summary)).toBe(1);
+    }, 30000);
+
+    it('should report a coverage merge that failed after a shard timed out, then clean up', async () => {
+      fakeJest({ tests: ['tests/a.test.ts', 'tests/b.test.ts', 'tests/c.test.ts'], hang: [2], coverage: false });
+      const run = runner({ shardTimeout: 1500 });
+      const completed: RunSummary[] = [];
+      run.on('run:complete', summary => completed.push(summary));
+
+      const summary = await run.run();
+
+      expect(summary).toMatchObject({ success: false, coverageError: 'No shard coverage files found to merge' });
+      expect(summary.shards.map(shard => [shard.shardId, shard.status, shard.reason])).toEqual([
+        [1, 'completed', undefined],
+        [2, 'failed', 'timeout']
+      ]);
+      expect(completed).toEqual([summary]);
+      expect(printed()).toContainEqual(expect.stringContaining('📋 Run summary'));
+      expect(printed()).toContainEqual(expect.stringContaining('Coverage was not merged: No shard coverage files found to merge'));
+      expect(fs.existsSync(path.join(os.tmpdir(), `jest-shard-${lockDirHash()}`))).toBe(false);
+      expect(runExitCode(summary)).toBe(1);
+    }, 30000);
+
+    it('should stop on SIGINT with a failed summary instead of exiting, then clean up', async () => {
+      fakeJest({ tests: ['tests/a.test.ts', 'tests/b.test.ts', 'tests/c.test.ts'], hang: [2] });
+      const run = runner();
+      const listeners = process.listeners('SIGINT');
+      const merged: unknown[] = [];
+      run.on('coverage:merged', event => merged.push(event));
+      run.on('shard:start', async ({ shardId }) => {
+        if (shardId === 2 && await waitForFile(path.join(projectRoot, 'hung-2.pids'))) {
+          interrupt(listeners);
+        }
+      });
+
+      const summary = await run.run();
+
+      expect(summary).toMatchObject({ success: false, interruptedBy: 'SIGINT' });
+      expect(summary.shards[1]).toMatchObject({ shardId: 2, status: 'failed', reason: 'interrupted' });
+      expect(await waitForFile(path.join(projectRoot, 'terminated-2'))).toBe(true);
+      expect(merged).toEqual([]);
+      expect(printed()).toContainEqual(expect.stringContaining('Run stopped by SIGINT'));
+      expect(process.listeners('SIGINT')).toEqual(listeners);
+      expect(fs.existsSync(path.join(os.tmpdir(), `jest-shard-${lockDirHash()}`))).toBe(false);
+      expect(runExitCode(summary)).toBe(130);
+      expect(runExitCode({ ...summary, interruptedBy: 'SIGTERM' })).toBe(143);
+    }, 30000);
+
+    it('should fail the run on missed coverage thresholds but still report the merged coverage', async () => {
+      fakeJest({
+        tests: ['tests/a.test.ts', 'tests/b.test.ts', 'tests/c.test.ts'],
+        coverageHits: 0,
+        globalConfig: { coverageThreshold: { global: { lines: 80 } } }
+      });
+      const run = runner();
+      const merged: number[] = [];
+      run.on('coverage:merged', ({ summary }) => merged.push(summary.lines.pct));
+
+      const summary = await run.run();
+
+      expect(summary.shards.every(shard => shard.status === 'completed')).toBe(true);
+      expect(summary).toMatchObject({ success: false, coverageError: undefined });
+      expect(summary.thresholdViolations).toEqual([
+        expect.objectContaining({ target: 'global', metric: 'lines', threshold: 80, actual: 0 })
+      ]);
+      expect(merged).toEqual([0]);
+      expect(printed()).toContainEqual(expect.stringContaining('Merged coverage missed 1 coverage threshold(s)'));
+      expect(runExitCode(summary)).toBe(1);
+    }, 30000);
+
+    it('should merge coverage with the chosen Jest config in the project root, wherever the run was started', async () => {
+      fakeJest({
+        tests: ['tests/a.test.ts', 'tests/b.test.ts', 'tests/c.test.ts'],
+        coverageHits: 0,
+        configFiles: { 'jest.ci.config.js': { coverageThreshold: { global: { lines: 80 } } } }
+      });
+      process.chdir(os.tmpdir());
+
+      const summary = await runner({ jestConfig: 'jest.ci.config.js' }).run();
+
+      expect(summary.coverageError).toBeUndefined();
+      expect(summary.thresholdViolations).toEqual([
+        expect.objectContaining({ target: 'global', metric: 'lines', threshold: 80, actual: 0 })
+      ]);
+      expect(fs.existsSync(path.join(projectRoot, 'coverage-final', 'coverage-final.json'))).toBe(true);
+      expect(fs.existsSync(path.join(projectRoot, 'test-results', 'results.json'))).toBe(true);
+    }, 30000);
+
+    describe('changed files', () => {
+      it('should shard only the affected tests, never more shards than files', async () => {
+        fakeJest({ tests: ['tests/a.test.ts', 'tests/b.test.ts', 'tests/c.test.ts'], changed: ['tests/b.test.ts'] });
+
+        const summary = await runner({ changedSince: 'main' }).run();
+
+        expect(summary).toMatchObject({
+          success: true,
+          totalShards: 1,
+          tests: { total: 1, passed: 1 },
+          testListCheck: { expected: 1, ran: 1 }
+        });
+        expect(calls()).toEqual([expect.objectContaining({ shard: 1, files: ['tests/b.test.ts'] })]);
+        expect(calls()[0].args).toEqual(expect.arrayContaining(['--changedSince=main', '--passWithNoTests']));
+      }, 30000);
+
+      it('should succeed without running shards when no tests are affected', async () => {
+        fakeJest({ tests: ['tests/a.test.ts'], changed: [] });
+
+        const summary = await runner({ onlyChanged: true }).run();
+
+        expect(summary).toMatchObject({ success: true, totalShards: 0, shards: [] });
+        expect(calls()).toEqual([]);
+        expect(printed()).toContainEqual(expect.stringContaining('No tests affected by changes in the working tree'));
+        expect(runExitCode(summary)).toBe(0);
+      }, 30000);
+
+      it('should throw when Jest cannot list the affected tests', () => {
+        fakeJest({ tests: ['tests/a.test.ts'], listError: "fatal: bad revision 'nonexistent-ref'" });
+
+        expect(() => runner({ changedSince: 'nonexistent-ref' }))
+          .toThrow("Could not list the tests affected by changes since nonexistent-ref:\nfatal: bad revision 'nonexistent-ref'");
+        expect(calls()).toEqual([]);
+      }, 30000);
+    });
+  });
+});
@@ -0,0 +1,154 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { CoverageCollector } from '../coverage-merger';
+import { ShardArtifactError, resolveRunId } from '../coverage-artifacts';
+
+describe('shard coverage artifacts', () => {
+  let projectRoot: string;
+  let shardDir: string;
+  let warn: jest.SpyInstance;
+
+  const fileCoverage = (file: string, hits: number) => ({
+    path: file,
+    statementMap: { 0: { start: { line: 1, column: 0 }, end: { line: 1, column: 10 } } },
+    fnMap: {},
+    branchMap: {},
+    s: { 0: hits },
+    f: {},
+    b: {}
+  });
+
+  const collector = () => new CoverageCollector({
+    shardedCoverageDir: shardDir,
+    finalCoverageDir: path.join(projectRoot, 'coverage-final'),
+    rootDir: projectRoot
+  });
+
+  const collect = (index: number, total: number, runId: string, hits = 1) => collector().collectShardCoverage(
+    { index, total },
+    { [path.join(projectRoot, `src/shard-${index}.ts`)]: fileCoverage(path.join(projectRoot, `src/shard-${index}.ts`), hits) },
+    { runId, gitCommit: 'abc123', jestConfigHash: 'config' }
+  );
+
+  const readArtifact = (file: string) => JSON.parse(zlib.gunzipSync(fs.readFileSync(path.join(shardDir, file))).toString());
+
+  const shardFiles = () => fs.readdirSync(shardDir).filter(file => file.startsWith('coverage-shard-')).sort();
+
+  beforeEach(() => {
+    projectRoot = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'jest-shard-artifacts-')));
+    shardDir = path.join(projectRoot, 'coverage-shards');
+    warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    warn.mockRestore();
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  it('should name shard files by content and replace the shard\'s earlier file', async () => {
+    await collect(1, 2, 'run-1', 1);
+    const [first] = shardFiles();
+    await collect(1, 2, 'run-1', 2);
+    const [second] = shardFiles();
+
+    expect(first).toMatch(/^coverage-shard-1-[0-9a-f]{12}\.json\.gz$/);
+    expect(second).not.toBe(first);
+    expect(shardFiles()).toHaveLength(1);
+
+    const artifact = readArtifact(second);
+    expect(artifact).toMatchObject({
+      schemaVersion: 1,
+      runId: 'run-1',
+      shard: { index: 1, total: 2 },
+      gitCommit: 'abc123',
+      jestConfigHash: 'config'
+    });
+    expect(second).toContain(artifact.checksum.substring(0, 12));
+  });
+
+  it('should refuse shards from another run and list missing indices by number', async () => {
+    await collect(3, 4, 'run-1');
+    await collect(4, 4, 'run-1');
+    await collect(1, 3, 'run-2');
+
+    const check = await collector().checkShards();
+    expect(check.runId).toBe('run-2');
+    expect(check.missing).toEqual([2, 3]);
+    expect(check.rejected.map(file => file.reason)).toEqual([
+      'from run run-1, expected run run-2',
+      'from run run-1, expected run run-2'
+    ]);
+
+    await expect(collector().mergeCoverage()).rejects.toThrow(ShardArtifactError);
+    expect(await collector().isAllShardsComplete(3, 'run-2')).toBe(false);
+  });
+
+  it('should merge only the matching run when mismatches are allowed', async () => {
+    await collect(2, 2, 'run-1');
+    await collect(1, 2, 'run-2');
+    await collect(2, 2, 'run-2');
+
+    expect(await collector().isAllShardsComplete(2, 'run-2')).toBe(true);
+
+    // A stale shard 3 from a bigger run is left out
+    await collect(3, 3, 'run-1');
+    const coverageMap = await collector().mergeCoverage({ runId: 'run-2', allowMismatchedShards: true });
+
+    expect(coverageMap.files().map(file => path.relative(projectRoot, file)).sort()).toEqual([
+      path.join('src', 'shard-1.ts'),
+      path.join('src', 'shard-2.ts')
+    ]);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('from run run-1, expected run run-2'));
+  });
+
+  it('should reject files whose coverage does not match the checksum', async () => {
+    await collect(1, 1, 'run-1');
+    const [file] = shardFiles();
+    const artifact = readArtifact(file);
+    artifact.coverage['src/shard-1.ts'].s[0] = 100;
+    fs.writeFileSync(path.join(shardDir, file), zlib.gzipSync(JSON.stringify(artifact)));
+
+    // Only the metadata is read up front; the checksum fails when merging
+    expect((await collector().checkShards()).rejected).toEqual([]);
+
+    const error = await collector().mergeCoverage().catch(caught => caught);
+    expect(error).toBeInstanceOf(ShardArtifactError);
+    expect(error.check.missing).toEqual([1]);
+    expect(error.check.rejected).toEqual([{
+      path: path.join(shardDir, file),
+      reason: 'checksum mismatch, the file is truncated or was modified'
+    }]);
+  });
+
+  it('should merge gzipped artifacts and older plain files one at a time', async () => {
+    await collect(1, 2, 'run-1', 2);
+    await collect(2, 2, 'run-1', 3);
+    // Written before shard files carried metadata
+    fs.writeFileSync(path.join(shardDir, 'coverage-shard-3.json'), JSON.stringify({
+      'src/shard-1.ts': fileCoverage('src/shard-1.ts', 5)
+    }, null, 2));
+
+    const log = jest.spyOn(console, 'log').mockImplementation(() => {});
+    const coverageMap = await collector().mergeCoverage({ verbose: true });
+    const messages = log.mock.calls.map(([message]) => message);
+    log.mockRestore();
+
+    expect(coverageMap.fileCoverageFor(path.join(projectRoot, 'src/shard-1.ts')).s).toEqual({ 0: 7 });
+    expect(messages).toContainEqual(expect.stringMatching(/^Merged coverage-shard-2-[0-9a-f]{12}\.json\.gz: 1 file\(s\), [\d.]+ KB in \d+ms$/));
+    expect(messages).toContainEqual('Merging 1 shard file(s) without run metadata unchecked');
+
+    const merged = JSON.parse(fs.readFileSync(path.join(projectRoot, 'coverage-final', 'coverage-final.json'), 'utf8'));
+    expect(Object.keys(merged).sort()).toEqual([
+      path.join(projectRoot, 'src/shard-1.ts'),
+      path.join(projectRoot, 'src/shard-2.ts')
+    ]);
+  });
+
+  it('should take the run id from the coordinator, then from CI', () => {
+    expect(resolveRunId({ JEST_SHARD_RUN_ID: 'local', GITHUB_RUN_ID: '42' })).toBe('local');
+    expect(resolveRunId({ GITHUB_RUN_ID: '42', GITHUB_RUN_ATTEMPT: '2' })).toBe('42');
+    expect(resolveRunId({})).toBeUndefined();
+  });
+});
@@ -0,0 +1,136 @@
+import * as vm from 'vm';
+import * as ts from 'typescript';
+import { createInstrumenter } from 'istanbul-lib-instrument';
+import type { CoverageMapData } from 'istanbul-lib-coverage';
+import {
+  TestAttributionRecorder,
+  createAttributionArtifact,
+  formatWhoCovers,
+  parseLineRanges,
+  whoCovers
+} from '../coverage-attribution';
+
+describe('coverage attribution', () => {
+  const projectRoot = '/project';
+
+  // One statement per line, so `hits` lists the hit count of lines 1..n
+  const fileCoverage = (file: string, hits: number[]) => ({
+    path: file,
+    statementMap: Object.fromEntries(hits.map((_, i) => [
+      String(i),
+      { start: { line: i + 1, column: 0 }, end: { line: i + 1, column: 10 } }
+    ])),
+    fnMap: {},
+    branchMap: {},
+    s: Object.fromEntries(hits.map((count, i) => [String(i), count])),
+    f: {},
+    b: {}
+  });
+
+  const shardAttribution = async (index: number, runId: string, timestamp: string) => {
+    const tests = new TestAttributionRecorder(projectRoot);
+    await tests.record(`/project/tests/shard-${index}-a.test.ts`, {
+      '/project/src/users.ts': fileCoverage('/project/src/users.ts', index === 1 ? [1, 1, 0, 0] : [0, 0, 1, 0])
+    });
+    await tests.record(`/project/tests/shard-${index}-b.test.ts`, {
+      '/project/src/users.ts': fileCoverage('/project/src/users.ts', index === 1 ? [1, 0, 0, 0] : [0, 0, 0, 0])
+    });
+
+    const artifact = createAttributionArtifact({ index, total: 2 }, {
+      'src/users.ts': fileCoverage('src/users.ts', index === 1 ? [2, 1, 0, 0] : [0, 0, 1, 0])
+    }, { tests, runId });
+    return { ...artifact, timestamp };
+  };
+
+  it('should attribute lines to shards and the test files that hit them', async () => {
+    const artifacts = [await shardAttribution(1, 'run-2', '2024-01-02'), await shardAttribution(2, 'run-2', '2024-01-02')];
+
+    const attribution = whoCovers(artifacts, 'src/users.ts');
+
+    expect(attribution).toEqual({
+      path: 'src/users.ts',
+      shards: [
+        {
+          index: 1,
+          lines: [1, 2],
+          tests: [
+            { path: 'tests/shard-1-a.test.ts', lines: [1, 2] },
+            { path: 'tests/shard-1-b.test.ts', lines: [1] }
+          ]
+        },
+        { index: 2, lines: [3], tests: [{ path: 'tests/shard-2-a.test.ts', lines: [3] }] }
+      ]
+    });
+    expect(formatWhoCovers(attribution)).toBe([
+      'src/users.ts: hit by 2 shard(s)',
+      '  Shard 1: lines 1-2',
+      '    tests/shard-1-a.test.ts: 1-2',
+      '    tests/shard-1-b.test.ts: 1',
+      '  Shard 2: lines 3',
+      '    tests/shard-2-a.test.ts: 3'
+    ].join('\n'));
+  });
+
+  it('should narrow to the asked-for lines and the newest run', async () => {
+    const artifacts = [
+      await shardAttribution(1, 'run-2', '2024-01-02'),
+      await shardAttribution(2, 'run-2', '2024-01-02'),
+      // An older run in which shard 2 also hit line 2
+      { ...await shardAttribution(2, 'run-1', '2024-01-01'), files: { 'src/users.ts': { lines: [2] } } }
+    ];
+
+    const attribution = whoCovers(artifacts, 'src/users.ts', { lines: [2, 4] });
+
+    expect(attribution.shards).toEqual([
+      { index: 1, lines: [2], tests: [{ path: 'tests/shard-1-a.test.ts', lines: [2] }] }
+    ]);
+    expect(whoCovers(artifacts, 'src/users.ts', { lines: [2], runId: 'run-1' }).shards).toEqual([
+      { index: 2, lines: [2], tests: undefined }
+    ]);
+    expect(formatWhoCovers(whoCovers(artifacts, 'src/users.ts', { lines: [4] }), { lines: [4] }))
+      .toBe('src/users.ts:4: not hit by any shard');
+  });
+
+  it('should record a test file\'s lines in the original source of transformed code', async () => {
+    const file = '/project/src/users.ts';
+    const source = [
+      'export interface User {',
+      '  name: string;',
+      "  role: 'admin' | 'user';",
+      '}',
+      '',
+      'export type Greeting = string;',
+      '',
+      '// Nothing above is left in the compiled code',
+      'export function greet(user: User): Greeting {',
+      '  const name: string = user.name;',
+      '  return `Hello, ${name}`;',
+      '}',
+      '',
+      'export function isAdmin(user: User): boolean {',
+      "  return user.role === 'admin';",
+      '}'
+    ].join('\n');
+    const compiled = ts.transpileModule(source, {
+      fileName: file,
+      compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2019, sourceMap: true }
+    });
+    // Instrumented like Jest does it, with the TypeScript source map attached to the coverage
+    const code = createInstrumenter().instrumentSync(compiled.outputText, file, JSON.parse(compiled.sourceMapText!));
+    const sandbox: { exports: Record<string, (user: object) => unknown>; __coverage__?: CoverageMapData } = { exports: {} };
+    vm.runInNewContext(code, sandbox);
+    sandbox.exports.greet({ name: 'Ada', role: 'user' });
+
+    const tests = new TestAttributionRecorder(projectRoot);
+    await tests.record('/project/tests/users.test.ts', sandbox.__coverage__!);
+
+    const lines = tests.testsFor('src/users.ts')['tests/users.test.ts'];
+    expect(lines).toEqual(expect.arrayContaining([10, 11]));
+    expect(lines).not.toContain(15);
+  });
+
+  it('should parse line ranges', () => {
+    expect(parseLineRanges('10-12, 3,11')).toEqual([3, 10, 11, 12]);
+    expect(() => parseLineRanges('10-')).toThrow('Invalid line range "10-"');
+  });
+});
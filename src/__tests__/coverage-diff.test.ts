@@ -0,0 +1,115 @@
+import { createCoverageMap } from 'istanbul-lib-coverage';
+import { diffCoverage, formatCoverageDiffMarkdown, formatLineRanges, parseUnifiedDiff } from '../coverage-diff';
+
+describe('coverage diff', () => {
+  const projectRoot = '/project';
+
+  // One statement per line, so `hits` lists the hit count of lines 1..n
+  const fileCoverage = (file: string, hits: number[]) => ({
+    path: file,
+    statementMap: Object.fromEntries(hits.map((_, i) => [
+      String(i),
+      { start: { line: i + 1, column: 0 }, end: { line: i + 1, column: 10 } }
+    ])),
+    fnMap: {},
+    branchMap: {},
+    s: Object.fromEntries(hits.map((count, i) => [String(i), count])),
+    f: {},
+    b: {}
+  });
+
+  const base = () => createCoverageMap({
+    '/project/src/a.ts': fileCoverage('/project/src/a.ts', [1, 1, 1, 1]),
+    '/project/src/same.ts': fileCoverage('/project/src/same.ts', [1, 0]),
+    '/project/src/old.ts': fileCoverage('/project/src/old.ts', [1])
+  });
+
+  const head = () => createCoverageMap({
+    '/project/src/a.ts': fileCoverage('/project/src/a.ts', [1, 0, 0, 1]),
+    '/project/src/same.ts': fileCoverage('/project/src/same.ts', [1, 0]),
+    '/project/src/new.ts': fileCoverage('/project/src/new.ts', [0, 1])
+  });
+
+  it('should report total and per-file deltas with newly uncovered lines', () => {
+    const diff = diffCoverage(base(), head(), { projectRoot });
+
+    // 6/7 statements covered before, 4/8 after
+    expect(diff.total.statements).toEqual({ base: 85.71, head: 50, delta: -35.71 });
+    expect(diff.files.map(file => [file.path, file.status])).toEqual([
+      ['src/a.ts', 'changed'],
+      ['src/new.ts', 'added'],
+      ['src/old.ts', 'removed']
+    ]);
+
+    const [a, added] = diff.files;
+    expect(a.metrics.lines).toEqual({ base: 100, head: 50, delta: -50 });
+    expect(a.newlyUncoveredLines).toEqual([2, 3]);
+    expect(added.metrics.lines).toEqual({ base: undefined, head: 50, delta: undefined });
+    expect(added.newlyUncoveredLines).toEqual([1]);
+    expect(diff.changedLines).toBeUndefined();
+  });
+
+  it('should measure coverage of the changed lines only where there is code', () => {
+    const changedLines = parseUnifiedDiff([
+      'diff --git a/src/a.ts b/src/a.ts',
+      '--- a/src/a.ts',
+      '+++ b/src/a.ts',
+      '@@ -1,2 +1,3 @@',
+      ' unchanged',
+      '+added line 2',
+      '-removed',
+      '+added line 3',
+      '@@ -10,0 +12,2 @@',
+      '+added line 12',
+      '+added line 13',
+      'diff --git a/src/gone.ts b/src/gone.ts',
+      '--- a/src/gone.ts',
+      '+++ /dev/null',
+      '@@ -1 +0,0 @@',
+      '-gone',
+      'diff --git a/src/new.ts b/src/new.ts',
+      '--- /dev/null',
+      '+++ b/src/new.ts',
+      '@@ -0,0 +1,2 @@',
+      '+line 1',
+      '+line 2'
+    ].join('\n'));
+
+    expect(changedLines).toEqual(new Map([
+      ['src/a.ts', new Set([2, 3, 12, 13])],
+      ['src/new.ts', new Set([1, 2])]
+    ]));
+
+    const diff = diffCoverage(base(), head(), { projectRoot, changedLines });
+
+    // Lines 12 and 13 of a.ts hold no statements
+    expect(diff.changedLines).toEqual({
+      total: 4,
+      covered: 1,
+      pct: 25,
+      uncovered: [
+        { path: 'src/a.ts', lines: [2, 3] },
+        { path: 'src/new.ts', lines: [1] }
+      ]
+    });
+  });
+
+  it('should format markdown for a pull request comment', () => {
+    const diff = diffCoverage(base(), head(), {
+      projectRoot,
+      changedLines: new Map([['src/a.ts', new Set([1, 2])]])
+    });
+
+    const markdown = formatCoverageDiffMarkdown(diff, { minChangedLines: 80 });
+
+    expect(markdown).toContain('| statements | 85.71% | 50.00% | -35.71 |');
+    expect(markdown).toContain('❌ **Changed lines:** 1/2 covered, 50.00% (minimum 80%)');
+    expect(markdown).toContain('- `src/a.ts`: 2');
+    expect(markdown).toContain('| `src/new.ts` (added) | 50.00% | - | 1 |');
+  });
+
+  it('should collapse consecutive line numbers into ranges', () => {
+    expect(formatLineRanges([1, 2, 3, 7, 9, 10])).toBe('1-3, 7, 9-10');
+    expect(formatLineRanges([])).toBe('');
+  });
+});
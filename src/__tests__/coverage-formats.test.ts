@@ -0,0 +1,123 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createCoverageMap } from 'istanbul-lib-coverage';
+import { CoverageCollector } from '../coverage-merger';
+import { detectCoverageFormat, parseCobertura, parseLcov } from '../coverage-formats';
+
+describe('coverage input formats', () => {
+  const lcov = [
+    'TN:',
+    'SF:src/math.ts',
+    'FN:1,add',
+    'FN:5,sub',
+    'FNDA:3,add',
+    'FNDA:0,sub',
+    'DA:1,3',
+    'DA:2,3',
+    'DA:5,0',
+    'DA:6,0',
+    'BRDA:2,0,0,2',
+    'BRDA:2,0,1,-',
+    'end_of_record',
+    ''
+  ].join('\n');
+
+  const cobertura = `<?xml version="1.0" ?>
+<coverage line-rate="0.5" branch-rate="0.5" version="1.9">
+  <sources><source>/ci/checkout/tools</source></sources>
+  <packages><package name="tools"><classes>
+    <class name="report.py" filename="report.py" line-rate="0.5">
+      <methods>
+        <method name="render" signature="()" line-rate="1">
+          <lines><line number="3" hits="2"/></lines>
+        </method>
+        <method name="unused" signature="()" line-rate="0">
+          <lines><line number="7" hits="0"/></lines>
+        </method>
+      </methods>
+      <lines>
+        <line number="1" hits="1"/>
+        <line number="3" hits="2" branch="true" condition-coverage="50% (1/2)"/>
+        <line number="7" hits="0"/>
+        <line number="8" hits="0"/>
+      </lines>
+    </class>
+  </classes></package></packages>
+</coverage>`;
+
+  it('should parse LCOV lines, functions and branches', () => {
+    const data = parseLcov(lcov);
+    const summary = createCoverageMap(data).fileCoverageFor('src/math.ts').toSummary().toJSON();
+
+    expect(summary.lines).toMatchObject({ total: 4, covered: 2 });
+    expect(summary.functions).toMatchObject({ total: 2, covered: 1 });
+    expect(summary.branches).toMatchObject({ total: 2, covered: 1 });
+  });
+
+  it('should parse Cobertura classes against their source directory', () => {
+    const data = parseCobertura(cobertura);
+
+    expect(Object.keys(data)).toEqual(['/ci/checkout/tools/report.py']);
+
+    const summary = createCoverageMap(data).fileCoverageFor('/ci/checkout/tools/report.py').toSummary().toJSON();
+    expect(summary.lines).toMatchObject({ total: 4, covered: 2 });
+    expect(summary.functions).toMatchObject({ total: 2, covered: 1 });
+    expect(summary.branches).toMatchObject({ total: 2, covered: 1 });
+  });
+
+  it('should detect formats from the extension, then the content', () => {
+    expect(detectCoverageFormat('coverage-shard-1.json', '')).toBe('istanbul');
+    expect(detectCoverageFormat('lcov.info', '')).toBe('lcov');
+    expect(detectCoverageFormat('cobertura-coverage.xml', '')).toBe('cobertura');
+    expect(detectCoverageFormat('coverage.out', lcov)).toBe('lcov');
+    expect(detectCoverageFormat('coverage.out', cobertura)).toBe('cobertura');
+    expect(() => detectCoverageFormat('coverage.out', 'nonsense')).toThrow('Cannot tell the coverage format');
+  });
+
+  describe('merging', () => {
+    let projectRoot: string;
+
+    beforeEach(() => {
+      projectRoot = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'jest-shard-formats-')));
+      fs.mkdirSync(path.join(projectRoot, 'packages/calc/src'), { recursive: true });
+      fs.mkdirSync(path.join(projectRoot, 'packages/calc/coverage'), { recursive: true });
+      fs.mkdirSync(path.join(projectRoot, 'coverage-shards'));
+      fs.writeFileSync(path.join(projectRoot, 'packages/calc/src/math.ts'), '');
+      fs.writeFileSync(path.join(projectRoot, 'packages/calc/coverage/lcov.info'), lcov);
+      fs.writeFileSync(path.join(projectRoot, 'coverage-shards/coverage-shard-1.json'), JSON.stringify({
+        'src/app.ts': {
+          path: 'src/app.ts',
+          statementMap: { 0: { start: { line: 1, column: 0 }, end: { line: 1, column: 10 } } },
+          fnMap: {},
+          branchMap: {},
+          s: { 0: 1 },
+          f: {},
+          b: {}
+        }
+      }));
+    });
+
+    afterEach(() => {
+      fs.rmSync(projectRoot, { recursive: true, force: true });
+    });
+
+    it('should merge LCOV inputs with the Istanbul shards, relative to their package', async () => {
+      const collector = new CoverageCollector({
+        shardedCoverageDir: path.join(projectRoot, 'coverage-shards'),
+        finalCoverageDir: path.join(projectRoot, 'coverage-final'),
+        rootDir: projectRoot
+      });
+
+      const coverageMap = await collector.mergeCoverage({
+        inputs: [path.join(projectRoot, 'packages/*/coverage/lcov.info')],
+        rootDir: projectRoot
+      });
+
+      expect(coverageMap.files().map(file => path.relative(projectRoot, file)).sort()).toEqual([
+        path.join('packages', 'calc', 'src', 'math.ts'),
+        path.join('src', 'app.ts')
+      ]);
+    });
+  });
+});
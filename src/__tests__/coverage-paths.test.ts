@@ -0,0 +1,64 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { normalizeCoveragePath, toLocalCoverage, toProjectCoverage } from '../coverage-paths';
+
+describe('coverage path normalization', () => {
+  let projectRoot: string;
+
+  const fileCoverage = (file: string, hits: number) => ({
+    path: file,
+    statementMap: { 0: { start: { line: 1, column: 0 }, end: { line: 1, column: 10 } } },
+    fnMap: {},
+    branchMap: {},
+    s: { 0: hits },
+    f: {},
+    b: {}
+  });
+
+  beforeEach(() => {
+    projectRoot = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'jest-shard-paths-')));
+    fs.mkdirSync(path.join(projectRoot, 'src/api'), { recursive: true });
+    fs.writeFileSync(path.join(projectRoot, 'src/api/users.ts'), '');
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  it('should store paths inside the project relative to it', () => {
+    expect(normalizeCoveragePath(path.join(projectRoot, 'src/api/users.ts'), projectRoot)).toBe('src/api/users.ts');
+    expect(normalizeCoveragePath('src/api/users.ts', projectRoot)).toBe('src/api/users.ts');
+    expect(normalizeCoveragePath(`file://${projectRoot}/src/api/users.ts`, projectRoot)).toBe('src/api/users.ts');
+  });
+
+  it('should place paths from other checkouts by the files in this one', () => {
+    expect(normalizeCoveragePath('/home/runner/work/repo/repo/src/api/users.ts', projectRoot)).toBe('src/api/users.ts');
+    expect(normalizeCoveragePath('D:\\a\\repo\\src\\api\\users.ts', projectRoot)).toBe('src/api/users.ts');
+    // Nothing to match it against: left alone
+    expect(normalizeCoveragePath('/elsewhere/lib/other.ts', projectRoot)).toBe('/elsewhere/lib/other.ts');
+  });
+
+  it('should apply path maps before stripping prefixes', () => {
+    const options = { pathMap: { '/app': '/build/checkout' }, stripPrefix: ['/build/checkout/'] };
+
+    expect(normalizeCoveragePath('/app/lib/generated.ts', projectRoot, options)).toBe('lib/generated.ts');
+    expect(normalizeCoveragePath('/application/lib/generated.ts', projectRoot, options)).toBe('/application/lib/generated.ts');
+    expect(normalizeCoveragePath('/app/lib/generated.ts', projectRoot, { pathMap: { '/app': '.' } })).toBe('lib/generated.ts');
+  });
+
+  it('should merge entries for the same file recorded at different paths', () => {
+    const shard = toProjectCoverage({
+      '/runner-1/repo/src/api/users.ts': fileCoverage('/runner-1/repo/src/api/users.ts', 1),
+      '/runner-2/repo/src/api/users.ts': fileCoverage('/runner-2/repo/src/api/users.ts', 2)
+    }, projectRoot);
+
+    expect(Object.keys(shard)).toEqual(['src/api/users.ts']);
+    expect(shard['src/api/users.ts'].s[0]).toBe(3);
+
+    const local = toLocalCoverage(shard, projectRoot);
+    const localPath = path.join(projectRoot, 'src/api/users.ts');
+    expect(Object.keys(local)).toEqual([localPath]);
+    expect(local[localPath].path).toBe(localPath);
+  });
+});
@@ -0,0 +1,124 @@
+import { createCoverageMap } from 'istanbul-lib-coverage';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { evaluateCoverageThresholds, formatViolationTable, watermarksFromThreshold } from '../coverage-threshold';
+import { IstanbulCoverageMerger } from '../coverage-merger';
+
+describe('Coverage thresholds', () => {
+  const projectRoot = '/project';
+
+  // One statement per hit count, so `hits` controls the statement percentage
+  const fileCoverage = (file: string, hits: number[]) => ({
+    path: file,
+    statementMap: Object.fromEntries(hits.map((_, i) => [
+      String(i),
+      { start: { line: i + 1, column: 0 }, end: { line: i + 1, column: 10 } }
+    ])),
+    fnMap: {},
+    branchMap: {},
+    s: Object.fromEntries(hits.map((count, i) => [String(i), count])),
+    f: {},
+    b: {}
+  });
+
+  const coverageMap = () => createCoverageMap({
+    '/project/src/api/users.ts': fileCoverage('/project/src/api/users.ts', [1, 1, 1, 0]),
+    '/project/src/api/orders.ts': fileCoverage('/project/src/api/orders.ts', [1, 0, 0, 0]),
+    '/project/src/utils.ts': fileCoverage('/project/src/utils.ts', [1, 1])
+  });
+
+  it('should pass when all thresholds are met', () => {
+    const violations = evaluateCoverageThresholds(coverageMap(), {
+      global: { statements: 50 }
+    }, projectRoot);
+
+    expect(violations).toEqual([]);
+  });
+
+  it('should check the global threshold against the whole merged map', () => {
+    const violations = evaluateCoverageThresholds(coverageMap(), {
+      global: { statements: 80, lines: 50 }
+    }, projectRoot);
+
+    expect(violations).toHaveLength(1);
+    expect(violations[0]).toMatchObject({ target: 'global', metric: 'statements', threshold: 80, actual: 60 });
+  });
+
+  it('should aggregate files under a directory threshold and exclude them from global', () => {
+    const violations = evaluateCoverageThresholds(coverageMap(), {
+      global: { statements: 100 },
+      './src/api/': { statements: 60 }
+    }, projectRoot);
+
+    expect(violations).toEqual([
+      expect.objectContaining({ target: './src/api/', metric: 'statements', actual: 50 })
+    ]);
+  });
+
+  it('should treat negative thresholds as a maximum uncovered count', () => {
+    const violations = evaluateCoverageThresholds(coverageMap(), {
+      global: { statements: -3 }
+    }, projectRoot);
+
+    expect(violations).toEqual([
+      expect.objectContaining({ target: 'global', metric: 'statements', threshold: -3, actual: 4 })
+    ]);
+  });
+
+  it('should report thresholds that matched no coverage data', () => {
+    const violations = evaluateCoverageThresholds(coverageMap(), {
+      './src/missing/': { lines: 10 }
+    }, projectRoot);
+
+    expect(violations).toEqual([
+      { target: './src/missing/', message: 'coverage data for ./src/missing/ was not found' }
+    ]);
+  });
+
+  it('should format violations as a table', () => {
+    const table = formatViolationTable([
+      { target: 'global', metric: 'lines', threshold: 80, actual: 72.5, message: '' },
+      { target: 'src/a.ts', metric: 'branches', threshold: -2, actual: 5, message: '' }
+    ]);
+
+    expect(table.split('\n')).toEqual([
+      'Target   | Metric   | Threshold     | Actual     ',
+      '---------|----------|---------------|------------',
+      'global   | lines    | 80%           | 72.5%      ',
+      'src/a.ts | branches | ≤ 2 uncovered | 5 uncovered'
+    ]);
+  });
+
+  it('should derive report watermarks from the global threshold like Jest', () => {
+    expect(watermarksFromThreshold({ global: { lines: 90, branches: -10 }, './src/': { statements: 95 } })).toEqual({
+      lines: [50, 90]
+    });
+    expect(watermarksFromThreshold(undefined)).toEqual({});
+  });
+
+  describe('merged reports', () => {
+    let outputDir: string;
+
+    beforeEach(() => {
+      outputDir = fs.mkdtempSync(path.join(os.tmpdir(), 'jest-shard-reports-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(outputDir, { recursive: true, force: true });
+    });
+
+    it('should pass tuple options to reporters, with per-reporter overrides on top', () => {
+      const merger = new IstanbulCoverageMerger({ projectRoot });
+
+      merger.generateReports(coverageMap(), outputDir, [
+        ['json-summary', { file: 'from-tuple.json' }],
+        ['json', { file: 'from-tuple-full.json' }]
+      ], {
+        reporterOptions: { json: { file: 'override.json' } }
+      });
+
+      expect(fs.readdirSync(outputDir).sort()).toEqual(['from-tuple.json', 'override.json']);
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import { EventEmitter } from 'events';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ShardDashboard } from '../dashboard';
+import { ProgressRecord, ProgressTail, appendProgress } from '../progress';
+import { TestResultEvent } from '../types';
+
+function result(shardId: number, file: string, overrides: Partial<TestResultEvent> = {}): TestResultEvent {
+  return {
+    shardId,
+    path: file,
+    status: 'passed',
+    duration: 1000,
+    numPassingTests: 2,
+    numFailingTests: 0,
+    numPendingTests: 0,
+    ...overrides
+  };
+}
+
+describe('ShardDashboard', () => {
+  it('should track per-shard progress from coordinator events', () => {
+    const coordinator = new EventEmitter();
+    const dashboard = new ShardDashboard({
+      totalShards: 2,
+      maxParallel: 2,
+      testFiles: ['a.test.js', 'b.test.js', 'c.test.js'],
+      tty: false
+    });
+    dashboard.attach(coordinator);
+
+    coordinator.emit('shard:start', { shardId: 1, totalShards: 2, attempt: 1, testFiles: ['a.test.js', 'b.test.js'] });
+    coordinator.emit('test:result', result(1, 'a.test.js', { status: 'failed', numPassingTests: 1, numFailingTests: 1 }));
+
+    const [, shard1, shard2] = dashboard.render();
+    expect(shard1).toMatch(/1\/2\s+running\s+1\/2\s+1\s+1/);
+    expect(shard2).toMatch(/2\/2\s+pending/);
+
+    // A retry replaces the failed result instead of counting the file twice
+    coordinator.emit('shard:start', { shardId: 1, totalShards: 2, attempt: 2, testFiles: ['a.test.js'] });
+    expect(dashboard.render()[1]).toMatch(/retry 1\s+1\/2/);
+    coordinator.emit('test:result', result(1, 'a.test.js'));
+    coordinator.emit('test:result', result(1, 'b.test.js'));
+
+    const [, retried, , totals] = dashboard.render();
+    expect(retried).toMatch(/1\/2\s+retry 1\s+2\/2\s+4\s+0/);
+    expect(totals).toContain('2/3 files');
+  });
+
+  it('should estimate the remaining time from history, spread over parallel shards', () => {
+    const dashboard = new ShardDashboard({
+      totalShards: 2,
+      maxParallel: 2,
+      testFiles: ['a.test.js', 'b.test.js', 'c.test.js'],
+      estimates: { 'a.test.js': 4000, 'b.test.js': 2000 },
+      tty: false
+    });
+
+    // c.test.js has no history and falls back to the average estimate
+    expect(dashboard.estimateRemaining()).toBe((4000 + 2000 + 3000) / 2);
+  });
+
+  it('should report no estimate without history or finished files', () => {
+    const dashboard = new ShardDashboard({ totalShards: 1, maxParallel: 1, testFiles: ['a.test.js'], tty: false });
+    expect(dashboard.estimateRemaining()).toBeUndefined();
+  });
+});
+
+describe('ProgressTail', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'jest-shard-progress-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should deliver each appended record once, holding back partial lines', () => {
+    const progressFile = path.join(tmpDir, 'progress.jsonl');
+    const records: ProgressRecord[] = [];
+    const tail = new ProgressTail(progressFile, record => records.push(record));
+
+    tail.poll();
+    expect(records).toEqual([]);
+
+    appendProgress(progressFile, { event: 'test:result', payload: result(1, 'a.test.js') });
+    fs.appendFileSync(progressFile, '{"event":"test:res');
+    tail.poll();
+    expect(records.map(record => record.payload.path)).toEqual(['a.test.js']);
+
+    fs.appendFileSync(progressFile, `ult","payload":${JSON.stringify(result(2, 'b.test.js'))}}\n`);
+    tail.stop();
+    expect(records.map(record => record.payload.path)).toEqual(['a.test.js', 'b.test.js']);
+  });
+});
@@ -0,0 +1,52 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { previewDistributions } from '../distribution-preview';
+import { TimingHistory } from '../types';
+
+describe('previewDistributions', () => {
+  let projectRoot: string;
+
+  beforeEach(() => {
+    projectRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'jest-shard-preview-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  it('should report files, bytes, predicted duration and imbalance for every strategy', () => {
+    const files = { 'a.test.js': 100, 'b.test.js': 200, 'c.test.js': 300, 'd.test.js': 400 };
+    for (const [file, size] of Object.entries(files)) {
+      fs.writeFileSync(path.join(projectRoot, file), 'x'.repeat(size));
+    }
+
+    const entry = (duration: number) => ({ duration, samples: 1, lastStatus: 'passed' as const, updatedAt: '' });
+    const history: TimingHistory = {
+      schemaVersion: 1,
+      updatedAt: '',
+      tests: { 'a.test.js': entry(1000), 'b.test.js': entry(1000), 'c.test.js': entry(1000), 'd.test.js': entry(5000) }
+    };
+
+    const distributions = previewDistributions({
+      testPaths: Object.keys(files),
+      totalShards: 2,
+      history,
+      historyFile: path.join(projectRoot, 'missing-history.json'),
+      projectRoot
+    });
+
+    expect(distributions.map(distribution => distribution.strategy)).toEqual(['round-robin', 'hash', 'file-size', 'smart']);
+
+    const roundRobin = distributions[0];
+    expect(roundRobin.shards).toEqual([
+      { index: 1, files: 2, bytes: 400, expectedDuration: 2000 },
+      { index: 2, files: 2, bytes: 600, expectedDuration: 6000 }
+    ]);
+    expect(roundRobin.imbalance).toBe(1.5);
+
+    for (const distribution of distributions) {
+      expect(distribution.shards.reduce((sum, shard) => sum + shard.files, 0)).toBe(4);
+    }
+  });
+});
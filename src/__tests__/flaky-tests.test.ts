@@ -0,0 +1,79 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FLAKE_LOG_SCHEMA_VERSION, FlakeLog, isQuarantined, loadQuarantineList } from '../flaky-tests';
+
+describe('flaky tests', () => {
+  let projectRoot: string;
+
+  const flake = (file: string, shard: number) => ({ path: file, shard, attempts: 2, timestamp: '2024-01-01T00:00:00.000Z' });
+
+  beforeEach(() => {
+    projectRoot = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'jest-shard-flakes-')));
+  });
+
+  afterEach(() => {
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  describe('FlakeLog', () => {
+    it('should start empty and append records across runs', () => {
+      const logFile = path.join(projectRoot, 'flakes.json');
+
+      expect(new FlakeLog(logFile).read()).toEqual({ schemaVersion: FLAKE_LOG_SCHEMA_VERSION, flakes: [] });
+
+      new FlakeLog(logFile).record([flake('tests/a.test.ts', 1)]);
+      new FlakeLog(logFile).record([flake('tests/b.test.ts', 2)]);
+
+      expect(new FlakeLog(logFile).read().flakes.map(record => record.path)).toEqual(['tests/a.test.ts', 'tests/b.test.ts']);
+    });
+
+    it('should not create the log for a run without flakes', () => {
+      const logFile = path.join(projectRoot, 'flakes.json');
+
+      new FlakeLog(logFile).record([]);
+
+      expect(fs.existsSync(logFile)).toBe(false);
+    });
+
+    it('should start over when the log cannot be read', () => {
+      const logFile = path.join(projectRoot, 'flakes.json');
+      fs.writeFileSync(logFile, '{ truncated');
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      new FlakeLog(logFile).record([flake('tests/a.test.ts', 1)]);
+      warn.mockRestore();
+
+      expect(new FlakeLog(logFile).read().flakes).toHaveLength(1);
+    });
+  });
+
+  describe('quarantine list', () => {
+    const writeList = (content: unknown) => {
+      const file = path.join(projectRoot, 'quarantine.json');
+      fs.writeFileSync(file, JSON.stringify(content));
+      return file;
+    };
+
+    it('should read an array or a files object as absolute paths', () => {
+      const expected = [path.join(projectRoot, 'tests/a.test.ts')];
+
+      expect(loadQuarantineList(writeList(['tests/a.test.ts']), projectRoot)).toEqual(expected);
+      expect(loadQuarantineList(writeList({ files: ['tests/a.test.ts'] }), projectRoot)).toEqual(expected);
+    });
+
+    it('should reject lists that are not test file paths', () => {
+      expect(() => loadQuarantineList(writeList({ tests: ['tests/a.test.ts'] }), projectRoot))
+        .toThrow('must be an array of test file paths');
+      expect(() => loadQuarantineList(writeList([1]), projectRoot)).toThrow('must be an array of test file paths');
+    });
+
+    it('should match test paths however they are written', () => {
+      const quarantined = loadQuarantineList(writeList(['tests/a.test.ts']), projectRoot);
+
+      expect(isQuarantined(path.join(projectRoot, 'tests/a.test.ts'), quarantined, projectRoot)).toBe(true);
+      expect(isQuarantined('tests/a.test.ts', quarantined, projectRoot)).toBe(true);
+      expect(isQuarantined(path.join(projectRoot, 'tests/b.test.ts'), quarantined, projectRoot)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { EventEmitter } from 'events';
+import { PassThrough } from 'stream';
+import type { ChildProcess } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ShardOutputMultiplexer } from '../output-multiplexer';
+
+function fakeChild() {
+  const child = new EventEmitter() as ChildProcess;
+  Object.assign(child, { stdout: new PassThrough(), stderr: new PassThrough() });
+  return child as ChildProcess & { stdout: PassThrough; stderr: PassThrough };
+}
+
+async function finish(child: ReturnType<typeof fakeChild>) {
+  child.stdout.end();
+  child.stderr.end();
+  await new Promise(resolve => setImmediate(resolve));
+  child.emit('close', 0, null);
+  // Give the log file stream time to flush
+  await new Promise(resolve => setTimeout(resolve, 50));
+}
+
+describe('ShardOutputMultiplexer', () => {
+  let logDir: string;
+  let write: jest.SpyInstance;
+
+  beforeEach(() => {
+    logDir = fs.mkdtempSync(path.join(os.tmpdir(), 'jest-shard-logs-'));
+    write = jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+  });
+
+  afterEach(() => {
+    write.mockRestore();
+    fs.rmSync(logDir, { recursive: true, force: true });
+  });
+
+  it('should leave output alone in inherit mode unless it is captured', () => {
+    expect(new ShardOutputMultiplexer({ mode: 'inherit', totalShards: 2 }).stdio).toBe('inherit');
+    expect(new ShardOutputMultiplexer({ mode: 'inherit', totalShards: 2, capture: true }).stdio)
+      .toEqual(['ignore', 'pipe', 'pipe']);
+  });
+
+  it('should pass captured lines through unchanged and report them', async () => {
+    const output = new ShardOutputMultiplexer({ mode: 'inherit', totalShards: 2, logDir, capture: true });
+    const child = fakeChild();
+    const lines: string[] = [];
+
+    output.attach(1, child, line => lines.push(line));
+    child.stdout.write('PASS a.test');
+    child.stdout.write('.js\nPASS b');
+    await finish(child);
+
+    expect(lines).toEqual(['PASS a.test.js', 'PASS b']);
+    expect(write.mock.calls.map(call => call[0])).toEqual(['PASS a.test.js\n', 'PASS b\n']);
+    expect(fs.readdirSync(logDir)).toEqual([]);
+  });
+
+  it('should tag every line with its shard in prefix mode, across chunks', async () => {
+    const output = new ShardOutputMultiplexer({ mode: 'prefix', totalShards: 2, logDir });
+    const child = fakeChild();
+
+    output.attach(1, child);
+    child.stdout.write('PASS a.test');
+    child.stdout.write('.js\nPASS b');
+    await finish(child);
+
+    expect(write.mock.calls.map(call => call[0])).toEqual([
+      expect.stringMatching(/\[shard 1\/2\].* PASS a\.test\.js\n$/),
+      expect.stringMatching(/\[shard 1\/2\].* PASS b\n$/)
+    ]);
+    expect(fs.readFileSync(path.join(logDir, 'shard-1.log'), 'utf8')).toBe('PASS a.test.js\nPASS b\n');
+  });
+
+  it('should print buffered output as one block and keep a plain log file', async () => {
+    const output = new ShardOutputMultiplexer({ mode: 'buffered', totalShards: 2, logDir });
+    const child = fakeChild();
+
+    output.attach(2, child);
+    child.stdout.write('\u001b[32mPASS\u001b[39m a.test.js\n');
+    expect(write).not.toHaveBeenCalled();
+    await finish(child);
+
+    expect(write).toHaveBeenCalledTimes(1);
+    expect(write.mock.calls[0][0]).toContain('[shard 2/2]');
+    expect(fs.readFileSync(path.join(logDir, 'shard-2.log'), 'utf8')).toBe('PASS a.test.js\n');
+  });
+});
@@ -0,0 +1,60 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { Config } from '@jest/types';
+import { runWorker } from '../queue-worker';
+import { WorkQueue } from '../work-queue';
+import { checkShardArtifacts, readShardCoverageFile } from '../coverage-artifacts';
+import { readJestConfig } from '../jest-config';
+
+jest.mock('../jest-config');
+
+describe('queue worker', () => {
+  let projectRoot: string;
+  const env = { ...process.env };
+
+  const mockConfig = (globalConfig: Partial<Config.GlobalConfig>) => jest.mocked(readJestConfig).mockReturnValue({
+    globalConfig: { rootDir: projectRoot, ...globalConfig } as Config.GlobalConfig,
+    configs: []
+  });
+
+  beforeEach(() => {
+    projectRoot = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'jest-shard-worker-')));
+    new WorkQueue(path.join(projectRoot, 'queue')).initialize([]);
+    Object.assign(process.env, {
+      JEST_SHARD_QUEUE_DIR: path.join(projectRoot, 'queue'),
+      JEST_SHARD_INDEX: '2',
+      JEST_TOTAL_SHARDS: '2',
+      JEST_SHARD_COVERAGE_DIR: path.join(projectRoot, 'coverage-shards'),
+      JEST_SHARD_RUN_ID: 'run-1'
+    });
+    mockConfig({ collectCoverage: true });
+  });
+
+  afterEach(() => {
+    for (const name of Object.keys(process.env).filter(name => !(name in env))) {
+      delete process.env[name];
+    }
+    fs.rmSync(projectRoot, { recursive: true, force: true });
+  });
+
+  it('should write an empty coverage file for the run when it never gets a batch', async () => {
+    expect(await runWorker()).toBe(0);
+
+    const [file] = fs.readdirSync(path.join(projectRoot, 'coverage-shards'));
+    const idle = await readShardCoverageFile(path.join(projectRoot, 'coverage-shards', file));
+    expect(idle).toMatchObject({ index: 2, coverage: {}, artifact: { runId: 'run-1', shard: { index: 2, total: 2 } } });
+
+    // Next to a worker that did run tests, the run is complete
+    const busy = { ...idle, path: 'coverage-shard-1.json.gz', index: 1, artifact: { ...idle.artifact!, shard: { index: 1, total: 2 } } };
+    expect(checkShardArtifacts([busy, idle], { runId: 'run-1', total: 2 })).toMatchObject({ missing: [], rejected: [] });
+  });
+
+  it('should write no coverage file when the Jest config does not collect coverage', async () => {
+    mockConfig({ collectCoverage: false });
+
+    expect(await runWorker()).toBe(0);
+
+    expect(fs.existsSync(path.join(projectRoot, 'coverage-shards'))).toBe(false);
+  });
+});
@@ -0,0 +1,124 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import type { Config } from '@jest/types';
+import type { AggregatedResult, Test, TestResult } from '@jest/reporters';
+import { createCoverageMap } from 'istanbul-lib-coverage';
+import { JestShardReporter } from '../reporter';
+import { ShardReporterOptions } from '../types';
+
+describe('JestShardReporter coverage', () => {
+  let rootDir: string;
+  let log: jest.SpyInstance;
+
+  const fileCoverage = (file: string, hits: number) => ({
+    path: file,
+    statementMap: { 0: { start: { line: 1, column: 0 }, end: { line: 1, column: 10 } } },
+    fnMap: {},
+    branchMap: {},
+    s: { 0: hits },
+    f: {},
+    b: {}
+  });
+
+  const createReporter = (globalConfig: Partial<Config.GlobalConfig>, options: ShardReporterOptions = {}) => new JestShardReporter({
+    collectCoverage: true,
+    rootDir,
+    ...globalConfig
+  } as Config.GlobalConfig, {
+    shardIndex: 1,
+    totalShards: 2,
+    shardedCoverageDir: path.join(rootDir, 'coverage-shards'),
+    finalCoverageDir: path.join(rootDir, 'coverage-final'),
+    mergeCoverageOnComplete: false,
+    ...options
+  });
+
+  const results = (coverageMap?: AggregatedResult['coverageMap']) => ({
+    numFailedTests: 0,
+    numPassedTests: 0,
+    numTotalTests: 0,
+    numPassedTestSuites: 0,
+    numFailedTestSuites: 0,
+    numTotalTestSuites: 0,
+    numPendingTests: 0,
+    numTodoTests: 0,
+    testResults: [],
+    coverageMap
+  }) as unknown as AggregatedResult;
+
+  const shardCoverage = () => {
+    const [file] = fs.readdirSync(path.join(rootDir, 'coverage-shards')).filter(name => name.startsWith('coverage-shard-1-'));
+    return JSON.parse(zlib.gunzipSync(fs.readFileSync(path.join(rootDir, 'coverage-shards', file))).toString()).coverage;
+  };
+
+  beforeEach(() => {
+    rootDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'jest-shard-reporter-')));
+    log = jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    log.mockRestore();
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  it('should take coverage from the aggregated results when Jest provides it', async () => {
+    const file = path.join(rootDir, 'src/a.ts');
+    const reporter = createReporter({ coverageDirectory: path.join(rootDir, 'unused') });
+
+    await reporter.onRunComplete(new Set(), results(createCoverageMap({ [file]: fileCoverage(file, 2) })));
+
+    expect(shardCoverage()['src/a.ts'].s).toEqual({ 0: 2 });
+  });
+
+  it('should build the coverage map from the test results before Jest does', async () => {
+    const file = path.join(rootDir, 'src/b.ts');
+    const coverageDirectory = path.join(rootDir, 'coverage');
+    // Left over from an earlier run; must not be picked up
+    fs.mkdirSync(coverageDirectory, { recursive: true });
+    fs.writeFileSync(path.join(coverageDirectory, 'coverage-final.json'), JSON.stringify({ [file]: fileCoverage(file, 9) }));
+
+    const reporter = createReporter({ coverageDirectory });
+    const test = { path: path.join(rootDir, 'tests/b.test.ts') } as Test;
+    reporter.onTestStart(test);
+    await reporter.onTestResult(test, {
+      testFilePath: test.path,
+      numFailingTests: 0,
+      testResults: [],
+      coverage: { [file]: fileCoverage(file, 1) }
+    } as unknown as TestResult, results());
+
+    await reporter.onRunComplete(new Set(), results());
+
+    expect(shardCoverage()['src/b.ts'].s).toEqual({ 0: 1 });
+    expect(fs.readdirSync(coverageDirectory)).toEqual(['coverage-final.json']);
+  });
+
+  it('should record which test files hit each line in attribution mode', async () => {
+    const file = path.join(rootDir, 'src/c.ts');
+    const reporter = createReporter({ coverageDirectory: path.join(rootDir, 'coverage') }, { coverageAttribution: 'tests' });
+
+    for (const [name, hits] of [['c1', 1], ['c2', 0]] as const) {
+      const test = { path: path.join(rootDir, `tests/${name}.test.ts`) } as Test;
+      reporter.onTestStart(test);
+      await reporter.onTestResult(test, {
+        testFilePath: test.path,
+        numFailingTests: 0,
+        testResults: [],
+        coverage: { [file]: fileCoverage(file, hits) }
+      } as unknown as TestResult, results());
+    }
+
+    await reporter.onRunComplete(new Set(), results());
+
+    const attribution = JSON.parse(zlib.gunzipSync(
+      fs.readFileSync(path.join(rootDir, 'coverage-shards', 'attribution-shard-1.json.gz'))
+    ).toString());
+    expect(attribution).toMatchObject({
+      shard: { index: 1, total: 2 },
+      level: 'tests',
+      files: { 'src/c.ts': { lines: [1], tests: { 'tests/c1.test.ts': [1] } } }
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import { expectedDurations, predictWallTime, recommendShardCount } from '../shard-advisor';
+import { TimingHistory } from '../types';
+
+describe('shard advisor', () => {
+  const tenSeconds = Array.from({ length: 10 }, () => 1000);
+
+  it('should predict wall time from balanced shards, overhead and parallelism', () => {
+    // 2 shards of 5s each, both running at once
+    expect(predictWallTime(tenSeconds, 2, 4, 500)).toBe(5500);
+    // 4 shards but only 2 slots: two rounds of (2 or 3 files + overhead)
+    expect(predictWallTime(tenSeconds, 4, 2, 500)).toBe(6000);
+    // A single long file bounds the run however many shards there are
+    expect(predictWallTime([8000, 1000, 1000], 3, 3, 0)).toBe(8000);
+  });
+
+  it('should stop adding shards once they no longer pay off', () => {
+    const recommendation = recommendShardCount({ durations: tenSeconds, maxParallel: 2, shardOverhead: 500 });
+
+    expect(recommendation.shards).toBe(2);
+    expect(recommendation.predictedWallTime).toBe(5500);
+    expect(recommendation.meetsTarget).toBe(true);
+  });
+
+  it('should choose the fewest shards that meet a target duration', () => {
+    const recommendation = recommendShardCount({
+      durations: tenSeconds,
+      maxParallel: 8,
+      shardOverhead: 500,
+      targetDuration: 4000
+    });
+
+    expect(recommendation.shards).toBe(4);
+    expect(recommendation.predictedWallTime).toBe(3500);
+  });
+
+  it('should report a target no shard count can meet', () => {
+    const recommendation = recommendShardCount({
+      durations: [30000, 1000],
+      maxParallel: 4,
+      shardOverhead: 500,
+      targetDuration: 10000
+    });
+
+    expect(recommendation.meetsTarget).toBe(false);
+    // A second shard would only save 1s of 31.5s, within 5% of the fastest
+    expect(recommendation.shards).toBe(1);
+    expect(recommendation.predictedWallTime).toBe(31500);
+  });
+
+  it('should fall back to the average recorded duration for files without history', () => {
+    const history: TimingHistory = {
+      schemaVersion: 1,
+      updatedAt: '',
+      tests: {
+        'tests/a.test.ts': { duration: 1000, samples: 1, lastStatus: 'passed', updatedAt: '' },
+        'tests/b.test.ts': { duration: 3000, samples: 1, lastStatus: 'passed', updatedAt: '' }
+      }
+    };
+
+    expect(expectedDurations(['/project/tests/b.test.ts', '/project/tests/new.test.ts'], history, '/project'))
+      .toEqual([3000, 2000]);
+  });
+});
@@ -0,0 +1,78 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ShardPlanError, createShardPlan, hashTestList, readShardPlan, verifyShardPlan } from '../shard-plan';
+
+describe('shard plans', () => {
+  const projectRoot = '/project';
+  const testPaths = ['/project/tests/c.test.ts', '/project/tests/a.test.ts', '/project/tests/b.test.ts'];
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'jest-shard-plan-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should assign every test file to exactly one shard, with relative paths', () => {
+    const plan = createShardPlan({
+      testPaths,
+      totalShards: 2,
+      strategy: 'round-robin',
+      historyFile: path.join(tmpDir, 'history.json'),
+      projectRoot
+    });
+
+    expect(plan.strategy).toBe('round-robin');
+    expect(plan.testCount).toBe(3);
+    expect(plan.shards.map(shard => shard.files.map(file => file.path))).toEqual([
+      ['tests/a.test.ts', 'tests/c.test.ts'],
+      ['tests/b.test.ts']
+    ]);
+  });
+
+  it('should record expected durations from the timing history', () => {
+    const historyFile = path.join(tmpDir, 'history.json');
+    fs.writeFileSync(historyFile, JSON.stringify({
+      schemaVersion: 1,
+      updatedAt: new Date().toISOString(),
+      tests: { 'tests/a.test.ts': { duration: 1500, samples: 1, lastStatus: 'passed', updatedAt: '' } }
+    }));
+
+    const plan = createShardPlan({ testPaths, totalShards: 1, strategy: 'round-robin', historyFile, projectRoot });
+
+    expect(plan.shards[0].expectedDuration).toBe(1500);
+    expect(plan.shards[0].files.find(file => file.path === 'tests/b.test.ts')!.expectedDuration).toBeUndefined();
+  });
+
+  it('should hash the test list independently of order and checkout location', () => {
+    const moved = testPaths.map(testPath => testPath.replace('/project', '/elsewhere')).reverse();
+    expect(hashTestList(moved, '/elsewhere')).toBe(hashTestList(testPaths, projectRoot));
+  });
+
+  it('should reject a plan made from a different test list', () => {
+    const plan = createShardPlan({ testPaths, totalShards: 2, strategy: 'hash', projectRoot });
+
+    expect(() => verifyShardPlan(plan, testPaths, projectRoot)).not.toThrow();
+
+    const changed = [...testPaths.slice(1), '/project/tests/d.test.ts'];
+    try {
+      verifyShardPlan(plan, changed, projectRoot);
+      throw new Error('expected a stale plan');
+    } catch (error) {
+      expect(error).toBeInstanceOf(ShardPlanError);
+      expect((error as ShardPlanError).added).toEqual(['tests/d.test.ts']);
+      expect((error as ShardPlanError).removed).toEqual(['tests/c.test.ts']);
+      expect((error as ShardPlanError).message).toContain('Shard plan is stale');
+    }
+  });
+
+  it('should refuse plans with an unknown schema version', () => {
+    const planFile = path.join(tmpDir, 'plan.json');
+    fs.writeFileSync(planFile, JSON.stringify({ schemaVersion: 99, shards: [] }));
+
+    expect(() => readShardPlan(planFile)).toThrow('unsupported schema version 99');
+  });
+});
@@ -0,0 +1,48 @@
+import { TestListMismatchError, checkShardTestFiles, formatTestListCheck, verifyShardTestFiles } from '../shard-verification';
+import { ShardResultsArtifact } from '../types';
+
+describe('shard test list verification', () => {
+  const artifact = (index: number, files: string[]): ShardResultsArtifact => ({
+    schemaVersion: 1,
+    timestamp: '',
+    shard: { index, total: 2 },
+    files: files.map(file => ({
+      path: file,
+      status: 'passed',
+      duration: 10,
+      numPassingTests: 1,
+      numFailingTests: 0,
+      numPendingTests: 0,
+      testCases: []
+    }))
+  });
+
+  it('should accept shards that ran every expected file exactly once', () => {
+    const check = verifyShardTestFiles(
+      [artifact(1, ['a.test.ts', 'c.test.ts']), artifact(2, ['b.test.ts'])],
+      ['a.test.ts', 'b.test.ts', 'c.test.ts']
+    );
+
+    expect(check).toEqual({ expected: 3, ran: 3, missing: [], duplicated: [], unexpected: [] });
+  });
+
+  it('should report missing, duplicated and unexpected files', () => {
+    const check = checkShardTestFiles(
+      [artifact(2, ['a.test.ts', 'x.test.ts']), artifact(1, ['a.test.ts'])],
+      ['a.test.ts', 'b.test.ts']
+    );
+
+    expect(check.missing).toEqual(['b.test.ts']);
+    expect(check.duplicated).toEqual([{ path: 'a.test.ts', shards: [1, 2] }]);
+    expect(check.unexpected).toEqual(['x.test.ts']);
+
+    const report = formatTestListCheck(check);
+    expect(report).toContain('Missing from every shard (1)');
+    expect(report).toContain('a.test.ts (shards 1, 2)');
+  });
+
+  it('should throw with the check attached when the lists differ', () => {
+    expect(() => verifyShardTestFiles([artifact(1, ['a.test.ts'])], ['a.test.ts', 'b.test.ts']))
+      .toThrow(TestListMismatchError);
+  });
+});
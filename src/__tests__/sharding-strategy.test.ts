@@ -2,7 +2,8 @@ import {
   RoundRobinStrategy,
   HashBasedStrategy,
   FileSizeStrategy,
-  SmartStrategy
+  SmartStrategy,
+  createShardingStrategy
 } from '../sharding-strategy';
 import * as fs from 'fs';
 import * as path from 'path';
@@ -121,7 +122,6 @@ describe('Sharding Strategies', () => {
     beforeEach(() => {
       (fs.existsSync as jest.Mock).mockReturnValue(false);
       (fs.readFileSync as jest.Mock).mockReturnValue('{}');
-      (fs.writeFileSync as jest.Mock).mockImplementation(() => {});
     });
 
     afterEach(() => {
@@ -154,14 +154,37 @@ describe('Sharding Strategies', () => {
       expect(Math.abs(shard1Duration - shard2Duration)).toBeLessThan(3000);
     });
 
-    it('should update test duration and save to history', () => {
+    it('should read the versioned history kept by the timing collector', () => {
+      (fs.existsSync as jest.Mock).mockReturnValue(true);
+      (fs.readFileSync as jest.Mock).mockReturnValue(JSON.stringify({
+        schemaVersion: 1,
+        updatedAt: '2024-01-01T00:00:00.000Z',
+        tests: {
+          'tests/slow.spec.ts': { duration: 9000, samples: 3, lastStatus: 'passed', updatedAt: '2024-01-01T00:00:00.000Z' },
+          'tests/fast.spec.ts': { duration: 100, samples: 3, lastStatus: 'passed', updatedAt: '2024-01-01T00:00:00.000Z' }
+        }
+      }));
+
+      const projectTests = ['slow', 'fast', 'new'].map(name => path.resolve(`tests/${name}.spec.ts`));
       const strategy = new SmartStrategy(historyFile);
-      strategy.updateTestDuration('/tests/test1.spec.ts', 5000);
 
-      expect(fs.writeFileSync).toHaveBeenCalledWith(
-        historyFile,
-        expect.stringContaining('test1.spec.ts')
-      );
+      expect(strategy.distributeTests(projectTests, { index: 1, total: 2 })).toEqual([projectTests[0]]);
+      expect(strategy.distributeTests(projectTests, { index: 2, total: 2 })).toEqual([projectTests[2], projectTests[1]]);
+    });
+
+    it('should fold durations passed to the deprecated updateTestDuration into the versioned history', () => {
+      const [slow, fast] = ['slow', 'fast'].map(name => path.resolve(`tests/${name}.spec.ts`));
+      const strategy = new SmartStrategy(historyFile);
+
+      strategy.updateTestDuration(slow, 9000);
+
+      const [tmpFile, content] = (fs.writeFileSync as jest.Mock).mock.calls[0];
+      expect(JSON.parse(content)).toMatchObject({
+        schemaVersion: 1,
+        tests: { 'tests/slow.spec.ts': { duration: 9000, samples: 1, lastStatus: 'passed' } }
+      });
+      expect(fs.renameSync).toHaveBeenCalledWith(tmpFile, historyFile);
+      expect(strategy.distributeTests([fast, slow], { index: 1, total: 2 })).toEqual([slow]);
     });
 
     it('should handle missing history file', () => {
@@ -188,4 +211,16 @@ describe('Sharding Strategies', () => {
       consoleSpy.mockRestore();
     });
   });
-});
\ No newline at end of file
+});
+describe('createShardingStrategy', () => {
+  it('should create each bundled strategy by name', () => {
+    expect(createShardingStrategy('round-robin')).toBeInstanceOf(RoundRobinStrategy);
+    expect(createShardingStrategy('hash')).toBeInstanceOf(HashBasedStrategy);
+    expect(createShardingStrategy('file-size')).toBeInstanceOf(FileSizeStrategy);
+    expect(createShardingStrategy('smart')).toBeInstanceOf(SmartStrategy);
+  });
+
+  it('should reject unknown strategy names', () => {
+    expect(() => createShardingStrategy('random')).toThrow('Unknown sharding strategy "random"');
+  });
+});
@@ -0,0 +1,133 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { TestResult } from '@jest/reporters';
+import { TestResultsCollector, mergeShardResults, toJUnitXml, RESULTS_SCHEMA_VERSION } from '../test-results';
+import { ShardResultsArtifact, TestFileSummary } from '../types';
+
+describe('Test results report', () => {
+  const passingFile: TestFileSummary = {
+    path: 'src/a.test.ts',
+    status: 'passed',
+    duration: 1200,
+    numPassingTests: 2,
+    numFailingTests: 0,
+    numPendingTests: 0,
+    testCases: [
+      { title: 'adds', fullName: 'math adds', status: 'passed', duration: 5, failureMessages: [] },
+      { title: 'subtracts', fullName: 'math subtracts', status: 'passed', duration: 3, failureMessages: [] }
+    ]
+  };
+
+  const failingFile: TestFileSummary = {
+    path: 'src/b.test.ts',
+    status: 'failed',
+    duration: 800,
+    numPassingTests: 0,
+    numFailingTests: 1,
+    numPendingTests: 1,
+    testCases: [
+      { title: 'parses <xml>', fullName: 'parser parses <xml>', status: 'failed', duration: 10, failureMessages: ['Expected "a" & got "b"'] },
+      { title: 'later', fullName: 'parser later', status: 'pending', duration: 0, failureMessages: [] }
+    ]
+  };
+
+  const brokenFile: TestFileSummary = {
+    path: 'src/c.test.ts',
+    status: 'failed',
+    duration: 0,
+    numPassingTests: 0,
+    numFailingTests: 0,
+    numPendingTests: 0,
+    failureMessage: 'Cannot find module ./missing',
+    testCases: []
+  };
+
+  const artifact = (index: number, files: TestFileSummary[]): ShardResultsArtifact => ({
+    schemaVersion: RESULTS_SCHEMA_VERSION,
+    timestamp: '2024-01-01T00:00:00.000Z',
+    shard: { index, total: 2 },
+    files
+  });
+
+  it('should total results across shards and record which shard ran each file', () => {
+    const merged = mergeShardResults([artifact(2, [failingFile, brokenFile]), artifact(1, [passingFile])]);
+
+    expect(merged.totals).toEqual({ testFiles: 3, tests: 4, passed: 2, failed: 1, pending: 1, duration: 2000 });
+    expect(merged.shards.map(shard => shard.index)).toEqual([1, 2]);
+    expect(merged.shards[1].files).toEqual(['src/b.test.ts', 'src/c.test.ts']);
+    expect(merged.files.find(file => file.path === 'src/a.test.ts')!.shard).toBe(1);
+  });
+
+  it('should list failed tests and suites that failed to run', () => {
+    const merged = mergeShardResults([artifact(1, [passingFile, failingFile, brokenFile])]);
+
+    expect(merged.failures).toEqual([
+      { file: 'src/b.test.ts', test: 'parser parses <xml>', shard: 1, message: 'Expected "a" & got "b"' },
+      { file: 'src/c.test.ts', test: 'src/c.test.ts', shard: 1, message: 'Cannot find module ./missing' }
+    ]);
+  });
+
+  it('should render escaped JUnit XML', () => {
+    const xml = toJUnitXml(mergeShardResults([artifact(1, [passingFile, failingFile, brokenFile])]));
+
+    expect(xml).toContain('<testsuites name="jest tests" tests="4" failures="2" time="2.000">');
+    expect(xml).toContain('<testcase classname="src/a.test.ts" name="math adds" time="0.005"/>');
+    expect(xml).toContain('name="parser parses &lt;xml&gt;"');
+    expect(xml).toContain('<failure message="Expected &quot;a&quot; &amp; got &quot;b&quot;">');
+    expect(xml).toContain('<skipped/>');
+    expect(xml).toContain('<error message="Test suite failed to run">Cannot find module ./missing</error>');
+  });
+
+  describe('retried files', () => {
+    let shardedResultsDir: string;
+
+    const testResult = (file: string, failing: number) => ({
+      testFilePath: path.join(process.cwd(), file),
+      numPassingTests: 1 - failing,
+      numFailingTests: failing,
+      numPendingTests: 0,
+      skipped: false,
+      perfStats: { runtime: 100 },
+      testResults: [{
+        title: 'works',
+        fullName: 'works',
+        status: failing ? 'failed' : 'passed',
+        duration: 100,
+        failureMessages: failing ? ['boom'] : []
+      }]
+    }) as unknown as TestResult;
+
+    beforeEach(() => {
+      shardedResultsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'jest-shard-results-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(shardedResultsDir, { recursive: true, force: true });
+    });
+
+    it('should replace the first attempt\'s entries for the files a retry ran', async () => {
+      const collector = new TestResultsCollector({ shardedResultsDir });
+      const shard = { index: 1, total: 2 };
+
+      await collector.collectShardResults(shard, [testResult('src/a.test.ts', 0), testResult('src/b.test.ts', 1)]);
+      await collector.collectShardResults(shard, [testResult('src/b.test.ts', 0)], { merge: true });
+
+      const artifact = await collector.readShardResult(1);
+      expect(artifact!.files.map(file => [file.path, file.status])).toEqual([
+        ['src/a.test.ts', 'passed'],
+        ['src/b.test.ts', 'passed']
+      ]);
+    });
+
+    it('should start over without merge', async () => {
+      const collector = new TestResultsCollector({ shardedResultsDir });
+      const shard = { index: 1, total: 2 };
+
+      await collector.collectShardResults(shard, [testResult('src/a.test.ts', 1)]);
+      await collector.collectShardResults(shard, [testResult('src/b.test.ts', 0)]);
+
+      expect((await collector.readShardResult(1))!.files.map(file => file.path)).toEqual(['src/b.test.ts']);
+    });
+  });
+});
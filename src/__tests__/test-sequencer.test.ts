@@ -0,0 +1,97 @@
+import ShardingTestSequencer from '../test-sequencer';
+import type { Test } from '@jest/reporters';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createShardPlan } from '../shard-plan';
+
+describe('ShardingTestSequencer', () => {
+  const makeTest = (path: string) => ({ path, context: {}, duration: undefined }) as unknown as Test;
+  const tests = ['/tests/c.spec.ts', '/tests/a.spec.ts', '/tests/d.spec.ts', '/tests/b.spec.ts'].map(makeTest);
+  const originalStrategy = process.env.JEST_SHARD_STRATEGY;
+
+  afterEach(() => {
+    if (originalStrategy === undefined) {
+      delete process.env.JEST_SHARD_STRATEGY;
+    } else {
+      process.env.JEST_SHARD_STRATEGY = originalStrategy;
+    }
+  });
+
+  it('should delegate shard selection to the configured strategy', () => {
+    process.env.JEST_SHARD_STRATEGY = 'round-robin';
+    const sequencer = new ShardingTestSequencer();
+
+    const shard1 = sequencer.shard(tests, { shardIndex: 1, shardCount: 2 });
+    const shard2 = sequencer.shard(tests, { shardIndex: 2, shardCount: 2 });
+
+    expect(shard1.map(test => test.path)).toEqual(['/tests/c.spec.ts', '/tests/a.spec.ts']);
+    expect(shard2.map(test => test.path)).toEqual(['/tests/d.spec.ts', '/tests/b.spec.ts']);
+  });
+
+  it('should split the same way regardless of input order', () => {
+    process.env.JEST_SHARD_STRATEGY = 'hash';
+    const sequencer = new ShardingTestSequencer();
+
+    const forward = sequencer.shard(tests, { shardIndex: 1, shardCount: 2 }).map(test => test.path).sort();
+    const reversed = sequencer.shard([...tests].reverse(), { shardIndex: 1, shardCount: 2 }).map(test => test.path).sort();
+
+    expect(forward).toEqual(reversed);
+  });
+
+  it('should split the same way wherever the project is checked out', () => {
+    const files = ['a', 'b', 'c', 'd', 'e', 'f'].map(name => `tests/${name}.spec.ts`);
+    const split = (rootDir: string) => [1, 2].map(shardIndex => new ShardingTestSequencer()
+      .shard(files.map(file => ({ path: path.join(rootDir, file), context: { config: { rootDir } } }) as unknown as Test), {
+        shardIndex,
+        shardCount: 2
+      })
+      .map(test => path.relative(rootDir, test.path)));
+
+    for (const strategy of ['hash', 'round-robin']) {
+      process.env.JEST_SHARD_STRATEGY = strategy;
+      expect(split('/home/runner/work/repo/repo')).toEqual(split('/builds/org/repo'));
+    }
+  });
+
+  it('should throw for an unknown strategy', () => {
+    process.env.JEST_SHARD_STRATEGY = 'nope';
+    const sequencer = new ShardingTestSequencer();
+
+    expect(() => sequencer.shard(tests, { shardIndex: 1, shardCount: 2 })).toThrow('Unknown sharding strategy');
+  });
+
+  describe('with a shard plan', () => {
+    const projectTests = ['a', 'b', 'c', 'd'].map(name => makeTest(path.join(process.cwd(), `tests/${name}.spec.ts`)));
+    let planFile: string;
+
+    beforeEach(() => {
+      planFile = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'jest-shard-plan-')), 'plan.json');
+      const plan = createShardPlan({ testPaths: projectTests.map(test => test.path), totalShards: 2, strategy: 'round-robin' });
+      fs.writeFileSync(planFile, JSON.stringify(plan));
+      process.env.JEST_SHARD_PLAN = planFile;
+    });
+
+    afterEach(() => {
+      delete process.env.JEST_SHARD_PLAN;
+      fs.rmSync(path.dirname(planFile), { recursive: true, force: true });
+    });
+
+    it('should run exactly the planned files', () => {
+      process.env.JEST_SHARD_STRATEGY = 'hash';
+      const shard2 = new ShardingTestSequencer().shard(projectTests, { shardIndex: 2, shardCount: 2 });
+
+      expect(shard2.map(test => path.relative(process.cwd(), test.path))).toEqual([
+        path.join('tests', 'b.spec.ts'),
+        path.join('tests', 'd.spec.ts')
+      ]);
+    });
+
+    it('should fail when the test list changed since the plan was made', () => {
+      const sequencer = new ShardingTestSequencer();
+
+      expect(() => sequencer.shard(projectTests.slice(1), { shardIndex: 1, shardCount: 2 })).toThrow('Shard plan is stale');
+      expect(() => sequencer.shard(projectTests, { shardIndex: 1, shardCount: 3 })).toThrow('has 2 shards');
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import { loadTimingHistory, mergeTimingArtifacts, TIMING_SCHEMA_VERSION } from '../timing-history';
+import { ShardTimingArtifact, TimingHistory } from '../types';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('Timing history', () => {
+  const emptyHistory: TimingHistory = { schemaVersion: TIMING_SCHEMA_VERSION, updatedAt: '', tests: {} };
+
+  const artifact = (index: number, timestamp: string, tests: ShardTimingArtifact['tests']): ShardTimingArtifact => ({
+    schemaVersion: TIMING_SCHEMA_VERSION,
+    jestVersion: '29.7.0',
+    timestamp,
+    shard: { index, total: 2 },
+    tests
+  });
+
+  describe('mergeTimingArtifacts', () => {
+    it('should seed new files with their first sample', () => {
+      const merged = mergeTimingArtifacts(emptyHistory, [
+        artifact(1, '2024-01-01T00:00:00.000Z', [{ path: 'a.test.ts', duration: 1000, status: 'passed' }]),
+        artifact(2, '2024-01-01T00:00:00.000Z', [{ path: 'b.test.ts', duration: 400, status: 'failed' }])
+      ]);
+
+      expect(merged.tests['a.test.ts']).toMatchObject({ duration: 1000, samples: 1, lastStatus: 'passed' });
+      expect(merged.tests['b.test.ts']).toMatchObject({ duration: 400, samples: 1, lastStatus: 'failed' });
+    });
+
+    it('should apply an exponential moving average to known files', () => {
+      const history: TimingHistory = {
+        ...emptyHistory,
+        tests: { 'a.test.ts': { duration: 1000, samples: 3, lastStatus: 'passed', updatedAt: '' } }
+      };
+
+      const merged = mergeTimingArtifacts(history, [
+        artifact(1, '2024-01-01T00:00:00.000Z', [{ path: 'a.test.ts', duration: 2000, status: 'passed' }])
+      ], 0.5);
+
+      expect(merged.tests['a.test.ts']).toMatchObject({ duration: 1500, samples: 4 });
+    });
+
+    it('should keep the previous estimate when a known file fails', () => {
+      const history: TimingHistory = {
+        ...emptyHistory,
+        tests: { 'a.test.ts': { duration: 1000, samples: 3, lastStatus: 'passed', updatedAt: '' } }
+      };
+
+      const merged = mergeTimingArtifacts(history, [
+        artifact(1, '2024-01-01T00:00:00.000Z', [{ path: 'a.test.ts', duration: 50, status: 'failed' }])
+      ]);
+
+      expect(merged.tests['a.test.ts']).toMatchObject({ duration: 1000, samples: 3, lastStatus: 'failed' });
+    });
+
+    it('should apply artifacts oldest first regardless of input order', () => {
+      const newer = artifact(1, '2024-01-02T00:00:00.000Z', [{ path: 'a.test.ts', duration: 3000, status: 'passed' }]);
+      const older = artifact(2, '2024-01-01T00:00:00.000Z', [{ path: 'a.test.ts', duration: 1000, status: 'passed' }]);
+
+      const merged = mergeTimingArtifacts(emptyHistory, [newer, older], 0.5);
+
+      expect(merged.tests['a.test.ts'].duration).toBe(2000);
+      expect(merged.tests['a.test.ts'].updatedAt).toBe(newer.timestamp);
+    });
+  });
+
+  describe('loadTimingHistory', () => {
+    let tmpDir: string;
+
+    beforeEach(() => {
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'jest-shard-history-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it('should return an empty history when the file does not exist', () => {
+      const history = loadTimingHistory(path.join(tmpDir, 'missing.json'));
+
+      expect(history.tests).toEqual({});
+      expect(history.schemaVersion).toBe(TIMING_SCHEMA_VERSION);
+    });
+
+    it('should upgrade the legacy flat format', () => {
+      const historyFile = path.join(tmpDir, 'legacy.json');
+      fs.writeFileSync(historyFile, JSON.stringify({ 'src/a.test.ts': 1200 }));
+
+      const history = loadTimingHistory(historyFile);
+
+      expect(history.tests['src/a.test.ts']).toMatchObject({ duration: 1200, samples: 1 });
+    });
+
+    it('should start without a history that cannot be read', () => {
+      const historyFile = path.join(tmpDir, 'broken.json');
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      for (const content of ['{ "schemaVersion": 1, "tests": {', 'null']) {
+        fs.writeFileSync(historyFile, content);
+        expect(loadTimingHistory(historyFile).tests).toEqual({});
+      }
+
+      expect(warn).toHaveBeenCalledTimes(2);
+      warn.mockRestore();
+    });
+
+    it('should reject newer schema versions', () => {
+      const historyFile = path.join(tmpDir, 'future.json');
+      fs.writeFileSync(historyFile, JSON.stringify({ schemaVersion: TIMING_SCHEMA_VERSION + 1, tests: {} }));
+
+      expect(() => loadTimingHistory(historyFile)).toThrow('unsupported schema version');
+    });
+  });
+});
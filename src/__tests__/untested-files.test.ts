@@ -0,0 +1,73 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createCoverageMap } from 'istanbul-lib-coverage';
+import { addUntestedFiles, matchCoverageSources } from '../untested-files';
+
+describe('untested files', () => {
+  let rootDir: string;
+
+  const write = (file: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(rootDir, file)), { recursive: true });
+    fs.writeFileSync(path.join(rootDir, file), content);
+  };
+
+  beforeEach(() => {
+    rootDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'jest-shard-untested-')));
+    write('src/loaded.ts', 'export const loaded = 1;\n');
+    write('src/unused.ts', 'export function unused(a: number): number {\n  return a > 0 ? a : -a;\n}\n');
+    write('src/view.tsx', 'export const View = () => <div />;\n');
+    write('src/types.d.ts', 'export type T = string;\n');
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  it('should apply negated collectCoverageFrom patterns as exclusions', () => {
+    const files = matchCoverageSources(['src/**/*.{ts,tsx}', '!**/*.d.ts'], rootDir);
+
+    expect(files.map(file => path.relative(rootDir, file))).toEqual(['src/loaded.ts', 'src/unused.ts', 'src/view.tsx']);
+  });
+
+  it('should add zero coverage for matching files no shard loaded', () => {
+    const loaded = path.join(rootDir, 'src/loaded.ts');
+    const coverageMap = createCoverageMap({
+      [loaded]: {
+        path: loaded,
+        statementMap: { 0: { start: { line: 1, column: 0 }, end: { line: 1, column: 24 } } },
+        fnMap: {},
+        branchMap: {},
+        s: { 0: 1 },
+        f: {},
+        b: {}
+      }
+    });
+
+    const added = addUntestedFiles(coverageMap, ['src/**/*.{ts,tsx}', '!**/*.d.ts'], rootDir);
+
+    expect(added.map(file => path.relative(rootDir, file))).toEqual(['src/unused.ts', 'src/view.tsx']);
+    expect(coverageMap.files()).toHaveLength(3);
+
+    const unused = coverageMap.fileCoverageFor(path.join(rootDir, 'src/unused.ts')).toSummary();
+    expect(unused.statements.total).toBeGreaterThan(0);
+    expect(unused.statements.covered).toBe(0);
+    expect(unused.functions.total).toBe(1);
+    expect(unused.branches.covered).toBe(0);
+
+    // The loaded file keeps its hits
+    expect(coverageMap.fileCoverageFor(loaded).toSummary().statements.covered).toBe(1);
+  });
+
+  it('should skip files that cannot be parsed', () => {
+    write('src/broken.ts', 'export const = ;\n');
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const coverageMap = createCoverageMap({});
+    const added = addUntestedFiles(coverageMap, ['src/broken.ts'], rootDir);
+
+    expect(added).toEqual([]);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
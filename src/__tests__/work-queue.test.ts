@@ -0,0 +1,44 @@
+import { WorkQueue } from '../work-queue';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('WorkQueue', () => {
+  let queueDir: string;
+
+  beforeEach(() => {
+    queueDir = fs.mkdtempSync(path.join(os.tmpdir(), 'jest-shard-queue-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(queueDir, { recursive: true, force: true });
+  });
+
+  it('should hand out tests in order, in batches', async () => {
+    const queue = new WorkQueue(queueDir);
+    queue.initialize(['a', 'b', 'c']);
+
+    expect(await queue.take(1, 2)).toEqual(['a', 'b']);
+    expect(await queue.take(2, 2)).toEqual(['c']);
+    expect(await queue.take(1, 2)).toEqual([]);
+  });
+
+  it('should never hand the same test to two workers', async () => {
+    const testPaths = Array.from({ length: 50 }, (_, i) => `test-${i}`);
+    new WorkQueue(queueDir).initialize(testPaths);
+
+    const workers = [1, 2, 3, 4].map(async workerId => {
+      const queue = new WorkQueue(queueDir);
+      const taken: string[] = [];
+      for (let batch = await queue.take(workerId); batch.length > 0; batch = await queue.take(workerId)) {
+        taken.push(...batch);
+      }
+      return taken;
+    });
+
+    const taken = (await Promise.all(workers)).flat();
+
+    expect(taken.sort()).toEqual([...testPaths].sort());
+    expect(new WorkQueue(queueDir).remaining()).toBe(0);
+  });
+});
@@ -2,8 +2,30 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 import * as crypto from 'crypto';
-import { execSync, spawn } from 'child_process';
+import { ChildProcess, SpawnOptions, execSync, spawn } from 'child_process';
 import { EventEmitter } from 'events';
+import type { CoverageMap } from 'istanbul-lib-coverage';
+import {
+  AutoShardEvents,
+  RunSummary,
+  ShardFailureReason,
+  ShardRunResult,
+  TestCounts,
+  TestListCheck,
+  ThresholdViolation
+} from './types';
+import { createShardingStrategy } from './sharding-strategy';
+import { TimingCollector, loadTimingHistory } from './timing-history';
+import { toProjectPath } from './paths';
+import { WorkQueue } from './work-queue';
+import { TestResultsCollector } from './test-results';
+import { FlakeLog, isQuarantined, loadQuarantineList } from './flaky-tests';
+import { ShardOutputMode, ShardOutputMultiplexer } from './output-multiplexer';
+import { ProgressTail } from './progress';
+import { ShardDashboard } from './dashboard';
+import { expectedDurations, recommendShardCount } from './shard-advisor';
+import { checkShardTestFiles, formatTestListCheck, isTestListComplete } from './shard-verification';
+import { CoverageThresholdError } from './coverage-threshold';
 
 interface ShardConfig {
   totalShards: number;
@@ -12,6 +34,14 @@ interface ShardConfig {
   jestConfig?: string;
   maxParallel?: number;
   timeout?: number;
+  totalTimeout?: number;
+  strategy?: string;
+  maxRetries?: number;
+  quarantineFile?: string;
+  flakeLogFile?: string;
+  shardedCoverageDir?: string;
+  changedSince?: string;
+  onlyChanged?: boolean;
 }
 
 interface ShardStatus {
@@ -21,18 +51,102 @@ interface ShardStatus {
   startTime?: number;
   endTime?: number;
   exitCode?: number;
+  signal?: string;
+  reason?: ShardFailureReason;
 }
 
+/**
+ * Jest flags that limit a run to the tests affected by changed files. Jest
+ * resolves the affected tests through its dependency graph.
+ */
+function changedFilesArgs(options: { changedSince?: string; onlyChanged?: boolean }): string[] {
+  if (options.changedSince) {
+    return [`--changedSince=${options.changedSince}`];
+  }
+  return options.onlyChanged ? ['--onlyChanged'] : [];
+}
+
+/**
+ * Exit code for `jest-shard run`: 0 when every shard passed and the run's
+ * checks held, 1 otherwise.
+ */
+export function runExitCode(summary: RunSummary): number {
+  if (summary.interruptedBy) {
+    // What a shell reports for a process the signal killed
+    return summary.interruptedBy === 'SIGINT' ? 130 : 143;
+  }
+  return summary.success ? 0 : 1;
+}
+
+function totalTests(shards: ShardRunResult[]): TestCounts {
+  return shards.reduce<TestCounts>((counts, shard) => ({
+    total: counts.total + (shard.tests?.total || 0),
+    passed: counts.passed + (shard.tests?.passed || 0),
+    failed: counts.failed + (shard.tests?.failed || 0),
+    pending: counts.pending + (shard.tests?.pending || 0)
+  }), { total: 0, passed: 0, failed: 0, pending: 0 });
+}
+
+/**
+ * Kills a shard and everything it started. Shards are spawned as process
+ * group leaders, so signalling the group also reaches `npx` → `jest` → workers.
+ */
+function killProcessTree(pid: number, signal: NodeJS.Signals = 'SIGTERM'): void {
+  try {
+    if (process.platform === 'win32') {
+      execSync(`taskkill /pid ${pid} /T /F`, { stdio: 'ignore' });
+    } else {
+      process.kill(-pid, signal);
+    }
+  } catch {
+    // Process already exited
+  }
+}
+
+/**
+ * Starts `npx jest`. Test paths reach Jest as they are, brackets, spaces and
+ * `$` included; only Windows needs a shell to find `npx.cmd`, so it gets
+ * every argument quoted.
+ */
+function spawnJest(args: string[], options: SpawnOptions): ChildProcess {
+  if (process.platform === 'win32') {
+    return spawn('npx', ['jest', ...args].map(arg => `"${arg.replace(/"/g, '\\"')}"`), { ...options, shell: true });
+  }
+  return spawn('npx', ['jest', ...args], options);
+}
+
+export interface AutoShardCoordinator {
+  on<E extends keyof AutoShardEvents>(event: E, listener: (payload: AutoShardEvents[E]) => void): this;
+  once<E extends keyof AutoShardEvents>(event: E, listener: (payload: AutoShardEvents[E]) => void): this;
+  off<E extends keyof AutoShardEvents>(event: E, listener: (payload: AutoShardEvents[E]) => void): this;
+  emit<E extends keyof AutoShardEvents>(event: E, payload: AutoShardEvents[E]): boolean;
+}
+
+/**
+ * Runs the shards of one `jest-shard run` and reports on them through the
+ * events in `AutoShardEvents`.
+ */
 export class AutoShardCoordinator extends EventEmitter {
   private lockDir: string;
   private statusFile: string;
   private config: ShardConfig;
   private shardStatuses: Map<number, ShardStatus> = new Map();
-  private maxRetries: number = 2;
+  private maxRetries: number;
+  private shardedCoverageDir: string;
+  private interruptSignal: 'SIGINT' | 'SIGTERM' | null = null;
+  /** Shared by this run's shards; their coverage files record it */
+  public readonly runId: string;
 
   constructor(config: ShardConfig) {
     super();
     this.config = config;
+    this.maxRetries = config.maxRetries ?? 0;
+    // Shards run in the project root, so their artifacts are found there from any working directory
+    this.shardedCoverageDir = path.resolve(
+      config.projectRoot,
+      config.shardedCoverageDir || process.env.JEST_SHARD_COVERAGE_DIR || 'coverage-shards'
+    );
+    this.runId = process.env.JEST_SHARD_RUN_ID || crypto.randomBytes(8).toString('hex');
 
     // Use a temp directory for coordination files
     const tmpBase = os.tmpdir();
@@ -163,13 +277,20 @@ export class AutoShardCoordinator extends EventEmitter {
     return null;
   }
 
-  public markShardComplete(shardId: number, exitCode: number = 0): void {
+  public markShardComplete(
+    shardId: number,
+    exitCode: number = 0,
+    signal?: string,
+    reason?: ShardFailureReason
+  ): void {
     const statuses = this.readStatus();
 
     if (statuses[shardId]) {
-      statuses[shardId].status = exitCode === 0 ? 'completed' : 'failed';
+      statuses[shardId].status = exitCode === 0 && !signal && !reason ? 'completed' : 'failed';
       statuses[shardId].endTime = Date.now();
       statuses[shardId].exitCode = exitCode;
+      statuses[shardId].signal = signal;
+      statuses[shardId].reason = reason;
 
       this.writeStatus(statuses);
       this.releaseShardLock(shardId);
@@ -202,19 +323,383 @@ export class AutoShardCoordinator extends EventEmitter {
     }
   }
 
+  /**
+   * Results and timings are read back per shard during the run (retries, the
+   * final summary), so a killed shard must not pick up a previous run's files.
+   * Coverage files from a previous run would fail the merge, and its
+   * attribution would answer `who-covers` for the wrong run.
+   */
+  private removeStaleShardArtifacts(): void {
+    if (!fs.existsSync(this.shardedCoverageDir)) {
+      return;
+    }
+
+    for (const file of fs.readdirSync(this.shardedCoverageDir)) {
+      if (/^((results|timing)-shard-\d+\.json|coverage-shard-\d+(-[0-9a-f]+)?\.json(\.gz)?|attribution-shard-\d+\.json\.gz)$/.test(file)) {
+        fs.unlinkSync(path.join(this.shardedCoverageDir, file));
+      }
+    }
+  }
+
+  /**
+   * Test paths the shards will run, i.e. everything but quarantined files.
+   */
+  public getRunnableTestPaths(): string[] {
+    const quarantined = this.config.quarantineFile
+      ? loadQuarantineList(path.resolve(this.config.projectRoot, this.config.quarantineFile), this.config.projectRoot)
+      : [];
+
+    return this.config.testPaths.filter(testPath => !isQuarantined(testPath, quarantined, this.config.projectRoot));
+  }
+
+  /**
+   * Files a static shard will run, computed the same way the test sequencer
+   * selects them inside the shard process.
+   */
+  private assignedFiles(shardId: number): string[] {
+    const strategy = createShardingStrategy(this.config.strategy || 'smart');
+    const testPaths = this.getRunnableTestPaths().map(testPath => toProjectPath(testPath, this.config.projectRoot)).sort();
+    return strategy.distributeTests(testPaths, { index: shardId, total: this.config.totalShards });
+  }
+
+  /**
+   * Seeds the shared queue with every test path, longest recorded duration
+   * first, so the slowest files start early and short ones fill the gaps.
+   */
+  private initializeQueue(): WorkQueue {
+    const history = loadTimingHistory('.jest-shard-history.json');
+    const expectedDuration = (testPath: string) =>
+      history.tests[toProjectPath(testPath, this.config.projectRoot)]?.duration ?? 1000;
+
+    const ordered = this.getRunnableTestPaths()
+      .sort((a, b) => expectedDuration(b) - expectedDuration(a));
+
+    const queue = new WorkQueue(this.lockDir);
+    queue.initialize(ordered);
+    return queue;
+  }
+
   public async runAllShards(options: {
     maxParallel?: number;
+    mode?: 'static' | 'queue';
+    batchSize?: number;
+    retryMode?: 'shard' | 'files';
+    output?: ShardOutputMode;
+    logDir?: string;
     onShardComplete?: (shardId: number, exitCode: number) => void;
-  } = {}): Promise<void> {
+  } = {}): Promise<ShardRunResult[]> {
     const maxParallel = options.maxParallel || this.config.maxParallel || os.cpus().length;
+    const mode = options.mode || 'static';
+    const retryMode = options.retryMode || 'files';
     const runningShards = new Map<number, any>();
+    const attempts = new Map<number, number>();
+    const initialFailures = new Map<number, string[]>();
+    const shardResults = new Map<number, ShardRunResult>();
+    const startTimes = new Map<number, number>();
+    const killReasons = new Map<number, ShardFailureReason>();
+    const shardTimers = new Map<number, NodeJS.Timeout>();
+    const shardTimeout = this.config.timeout;
+    let stopReason: ShardFailureReason | null = null;
+    const resultsCollector = new TestResultsCollector({ shardedResultsDir: this.shardedCoverageDir });
+    const output = new ShardOutputMultiplexer({
+      mode: options.output || 'inherit',
+      totalShards: this.config.totalShards,
+      logDir: options.logDir,
+      capture: this.listenerCount('shard:output') > 0
+    });
+    const progressFile = path.join(this.lockDir, 'progress.jsonl');
+    const progress = new ProgressTail(progressFile, record => this.emit(record.event, record.payload));
 
     // Clean up previous run
     this.cleanup();
+    this.interruptSignal = null;
     this.ensureLockDir();
+    this.removeStaleShardArtifacts();
+    progress.start();
+
+    if (mode === 'queue') {
+      this.initializeQueue();
+    }
+
+    const launchShard = (shardId: number, retryFiles?: string[]) => {
+      const env: NodeJS.ProcessEnv = {
+        ...process.env,
+        JEST_TOTAL_SHARDS: this.config.totalShards.toString(),
+        JEST_SHARD_INDEX: shardId.toString(),
+        JEST_SHARD_STRATEGY: this.config.strategy || 'smart',
+        JEST_AUTO_SHARD: 'true',
+        JEST_SHARD_RUN_ID: this.runId,
+        JEST_SHARD_PROGRESS_FILE: progressFile
+      };
+
+      // Piped output would otherwise lose Jest's colors
+      if (options.output && options.output !== 'inherit' && process.stdout.isTTY) {
+        env.FORCE_COLOR = env.FORCE_COLOR || '1';
+      }
+
+      if (this.config.quarantineFile) {
+        env.JEST_SHARD_QUARANTINE_FILE = path.resolve(this.config.projectRoot, this.config.quarantineFile);
+      }
+
+      if (mode === 'queue') {
+        env.JEST_SHARD_QUEUE_WORKER = 'true';
+        env.JEST_SHARD_QUEUE_DIR = this.lockDir;
+        env.JEST_SHARD_QUEUE_BATCH = (options.batchSize || 1).toString();
+        if (this.config.jestConfig) {
+          env.JEST_SHARD_JEST_CONFIG = this.config.jestConfig;
+        }
+
+        return spawn(process.execPath, [path.join(__dirname, 'queue-worker.js')], {
+          env,
+          cwd: this.config.projectRoot,
+          stdio: output.stdio,
+          detached: process.platform !== 'win32'
+        });
+      }
+
+      let args: string[];
+
+      if (retryFiles) {
+        // Coverage from the first attempt already includes these files
+        env.JEST_SHARD_RETRY = 'files';
+        args = ['--runTestsByPath', ...retryFiles, '--coverage=false'];
+      } else {
+        args = [
+          '--shard',
+          `${shardId}/${this.config.totalShards}`,
+          '--testSequencer',
+          path.join(__dirname, 'test-sequencer.js'),
+          // Per-shard coverage is partial; thresholds are checked after merging
+          '--coverageThreshold={}'
+        ];
+
+        // Each shard narrows the suite to the same change set before splitting it
+        const changedArgs = changedFilesArgs(this.config);
+        if (changedArgs.length > 0) {
+          args.push(...changedArgs, '--passWithNoTests');
+        }
+      }
+
+      if (this.config.jestConfig) {
+        args.push('--config', this.config.jestConfig);
+      }
+
+      // File retries pass project-relative paths, and Jest finds its config from here
+      return spawnJest(args, {
+        env,
+        cwd: this.config.projectRoot,
+        stdio: output.stdio,
+        detached: process.platform !== 'win32'
+      });
+    };
+
+    const failingFiles = async (shardId: number): Promise<string[]> => {
+      const results = await resultsCollector.readShardResult(shardId);
+      return results
+        ? results.files.filter(file => file.status === 'failed').map(file => file.path)
+        : [];
+    };
+
+    const recordFlakes = async (shardId: number) => {
+      const failedFirst = initialFailures.get(shardId);
+      if (!failedFirst || failedFirst.length === 0) {
+        return;
+      }
+
+      const stillFailing = new Set(await failingFiles(shardId));
+      const flaky = failedFirst.filter(file => !stillFailing.has(file));
+
+      for (const file of flaky) {
+        console.log(`⚠ Flaky: ${file} passed on retry in shard ${shardId}`);
+      }
+
+      new FlakeLog(this.config.flakeLogFile).record(flaky.map(file => ({
+        path: file,
+        shard: shardId,
+        attempts: attempts.get(shardId) || 1,
+        timestamp: new Date().toISOString()
+      })));
+    };
+
+    const terminateShard = (shardId: number, reason: ShardFailureReason) => {
+      const child = runningShards.get(shardId);
+      if (!child || killReasons.has(shardId)) {
+        return;
+      }
+
+      killReasons.set(shardId, reason);
+      killProcessTree(child.pid, 'SIGTERM');
+
+      // Jest may take a moment to shut down its workers; force it if it does not
+      setTimeout(() => {
+        if (runningShards.get(shardId) === child) {
+          killProcessTree(child.pid, 'SIGKILL');
+        }
+      }, 5000).unref();
+    };
+
+    const stopAll = (reason: ShardFailureReason) => {
+      stopReason = stopReason || reason;
+      for (const shardId of runningShards.keys()) {
+        terminateShard(shardId, reason);
+      }
+    };
+
+    const totalTimer = this.config.totalTimeout
+      ? setTimeout(() => {
+        console.error(`⏱ Total timeout of ${this.config.totalTimeout! / 1000}s reached, stopping all shards`);
+        stopAll('timeout');
+      }, this.config.totalTimeout)
+      : undefined;
+
+    // The run resolves once the killed shards have exited; callers decide how to leave
+    const onSignal = (signal: 'SIGINT' | 'SIGTERM') => {
+      console.error(`\n${signal} received, stopping ${runningShards.size} running shard(s)...`);
+      this.interruptSignal = signal;
+      stopAll('interrupted');
+    };
+
+    process.once('SIGINT', onSignal);
+    process.once('SIGTERM', onSignal);
+
+    const finish = () => {
+      if (totalTimer) {
+        clearTimeout(totalTimer);
+      }
+      process.removeListener('SIGINT', onSignal);
+      process.removeListener('SIGTERM', onSignal);
+      progress.stop();
+
+      // Shards that never started because the run was stopped
+      for (let i = 1; i <= this.config.totalShards; i++) {
+        if (!shardResults.has(i)) {
+          shardResults.set(i, {
+            shardId: i,
+            status: 'failed',
+            exitCode: null,
+            signal: null,
+            duration: 0,
+            attempts: 0,
+            reason: stopReason || undefined
+          });
+        }
+      }
+
+      return [...shardResults.values()].sort((a, b) => a.shardId - b.shardId);
+    };
 
     return new Promise((resolve, reject) => {
+      const startShard = (shardId: number, retryFiles?: string[]) => {
+        const child = launchShard(shardId, retryFiles);
+        output.attach(shardId, child, (line, stream) => this.emit('shard:output', { shardId, stream, line }));
+
+        if (!startTimes.has(shardId)) {
+          startTimes.set(shardId, Date.now());
+        }
+
+        runningShards.set(shardId, child);
+
+        const attempt = attempts.get(shardId) || 1;
+        this.emit('shard:start', {
+          shardId,
+          totalShards: this.config.totalShards,
+          attempt,
+          pid: child.pid,
+          testFiles: retryFiles
+            ? retryFiles.map(file => toProjectPath(file, this.config.projectRoot))
+            : mode === 'static' ? this.assignedFiles(shardId) : undefined
+        });
+
+        if (shardTimeout) {
+          shardTimers.set(shardId, setTimeout(() => {
+            console.error(`⏱ Shard ${shardId} exceeded its ${shardTimeout / 1000}s timeout, killing it`);
+            terminateShard(shardId, 'timeout');
+          }, shardTimeout));
+        }
+
+        // Update status
+        const newStatuses = this.readStatus();
+        newStatuses[shardId] = {
+          shardId,
+          status: 'running',
+          pid: child.pid,
+          startTime: newStatuses[shardId]?.startTime || Date.now()
+        };
+        this.writeStatus(newStatuses);
+
+        // 'close' rather than 'exit' so a buffered shard's output is printed first
+        child.on('close', async (code, signal) => {
+          clearTimeout(shardTimers.get(shardId));
+          shardTimers.delete(shardId);
+          // Deliver the shard's last results before it is reported complete
+          progress.poll();
+
+          // A shard killed by a signal has no exit code and must never count as a pass
+          const exitCode = code ?? 1;
+          const reason = killReasons.get(shardId) || (signal ? 'signal' : undefined);
+          killReasons.delete(shardId);
+          console.log(signal
+            ? `Shard ${shardId}/${this.config.totalShards} was killed by ${signal}`
+            : `Shard ${shardId}/${this.config.totalShards} completed with code ${exitCode}`);
+
+          if (exitCode !== 0 && !reason && !stopReason && mode === 'static' && attempt <= this.maxRetries) {
+            if (!initialFailures.has(shardId)) {
+              initialFailures.set(shardId, await failingFiles(shardId));
+            }
+
+            const toRetry = retryMode === 'files' ? await failingFiles(shardId) : [];
+
+            // A stop while the results were read would not reach a retry started now
+            if (!stopReason) {
+              attempts.set(shardId, attempt + 1);
+
+              console.log(toRetry.length > 0
+                ? `Retrying ${toRetry.length} failing file(s) of shard ${shardId} (retry ${attempt}/${this.maxRetries})`
+                : `Retrying shard ${shardId} (retry ${attempt}/${this.maxRetries})`);
+
+              startShard(shardId, toRetry.length > 0 ? toRetry : undefined);
+              return;
+            }
+          }
+
+          await recordFlakes(shardId);
+
+          const result: ShardRunResult = {
+            shardId,
+            status: exitCode === 0 && !reason ? 'completed' : 'failed',
+            exitCode: code,
+            signal,
+            duration: Date.now() - startTimes.get(shardId)!,
+            attempts: attempt,
+            reason
+          };
+          shardResults.set(shardId, result);
+          this.emit('shard:complete', result);
+
+          // Update status
+          this.markShardComplete(shardId, exitCode, signal ?? undefined, reason);
+
+          // Clean up
+          runningShards.delete(shardId);
+          this.releaseShardLock(shardId);
+
+          if (options.onShardComplete) {
+            options.onShardComplete(shardId, exitCode);
+          }
+
+          // Check for more work
+          setImmediate(checkAndStartShards);
+        });
+      };
+
       const checkAndStartShards = () => {
+        if (stopReason) {
+          if (runningShards.size === 0) {
+            resolve(finish());
+          }
+          return;
+        }
+
         // Start new shards if below parallel limit
         while (runningShards.size < maxParallel) {
           const statuses = this.readStatus();
@@ -235,72 +720,68 @@ export class AutoShardCoordinator extends EventEmitter {
             if (runningShards.size === 0) {
               const status = this.getShardStatus();
               if (status.pending === 0 && status.running === 0) {
-                resolve();
+                resolve(finish());
               }
             }
             return;
           }
 
           // Start shard
-          console.log(`Starting shard ${nextShard}/${this.config.totalShards}`);
-
-          const env = {
-            ...process.env,
-            JEST_TOTAL_SHARDS: this.config.totalShards.toString(),
-            JEST_SHARD_INDEX: nextShard.toString(),
-            JEST_AUTO_SHARD: 'true'
-          };
-
-          const args = [
-            '--shard',
-            `${nextShard}/${this.config.totalShards}`
-          ];
+          console.log(`Starting ${mode === 'queue' ? 'worker' : 'shard'} ${nextShard}/${this.config.totalShards}`);
+          startShard(nextShard);
+        }
+      };
 
-          if (this.config.jestConfig) {
-            args.push('--config', this.config.jestConfig);
-          }
+      // Start initial shards
+      checkAndStartShards();
+    });
+  }
 
-          const child = spawn('npx', ['jest', ...args], {
-            env,
-            stdio: 'inherit',
-            shell: true
-          });
+  /**
+   * The signal that stopped the last `runAllShards`, if one did.
+   */
+  public get interruptedBy(): 'SIGINT' | 'SIGTERM' | null {
+    return this.interruptSignal;
+  }
 
-          runningShards.set(nextShard, child);
+  /**
+   * Runs the quarantined files on their own after the main run. The outcome
+   * is reported but never fails the run, and no shard artifacts are written.
+   */
+  public async runQuarantined(): Promise<number> {
+    if (!this.config.quarantineFile) {
+      return 0;
+    }
 
-          // Update status
-          const newStatuses = this.readStatus();
-          newStatuses[nextShard] = {
-            shardId: nextShard,
-            status: 'running',
-            pid: child.pid,
-            startTime: Date.now()
-          };
-          this.writeStatus(newStatuses);
+    const affected = new Set(this.config.testPaths);
+    const files = loadQuarantineList(path.resolve(this.config.projectRoot, this.config.quarantineFile), this.config.projectRoot)
+      .filter(file => fs.existsSync(file))
+      // In a changed-files run only the affected quarantined files are due
+      .filter(file => changedFilesArgs(this.config).length === 0 || affected.has(file));
 
-          child.on('exit', (code) => {
-            const exitCode = code || 0;
-            console.log(`Shard ${nextShard}/${this.config.totalShards} completed with code ${exitCode}`);
+    if (files.length === 0) {
+      return 0;
+    }
 
-            // Update status
-            this.markShardComplete(nextShard!, exitCode);
+    console.log(`Running ${files.length} quarantined test file(s) (non-blocking)`);
 
-            // Clean up
-            runningShards.delete(nextShard!);
-            this.releaseShardLock(nextShard!);
+    const args = ['--runTestsByPath', ...files, '--coverage=false'];
+    if (this.config.jestConfig) {
+      args.push('--config', this.config.jestConfig);
+    }
 
-            if (options.onShardComplete) {
-              options.onShardComplete(nextShard!, exitCode);
-            }
+    return new Promise(resolve => {
+      const child = spawnJest(args, {
+        env: { ...process.env, JEST_SHARD_QUARANTINE_PASS: 'true' },
+        cwd: this.config.projectRoot,
+        stdio: 'inherit'
+      });
 
-            // Check for more work
-            setImmediate(checkAndStartShards);
-          });
-        }
-      };
+      if (this.config.timeout) {
+        setTimeout(() => killProcessTree(child.pid!, 'SIGKILL'), this.config.timeout).unref();
+      }
 
-      // Start initial shards
-      checkAndStartShards();
+      child.on('exit', code => resolve(code ?? 1));
     });
   }
 }
@@ -313,72 +794,148 @@ export class AutoShardRunner {
     jestConfig?: string;
     projectRoot?: string;
     maxParallel?: number;
+    strategy?: string;
+    mode?: 'static' | 'queue';
+    batchSize?: number;
+    retries?: number;
+    retryMode?: 'shard' | 'files';
+    shardTimeout?: number;
+    totalTimeout?: number;
+    quarantineFile?: string;
+    flakeLogFile?: string;
+    output?: ShardOutputMode;
+    logDir?: string;
+    dashboard?: boolean;
+    changedSince?: string;
+    onlyChanged?: boolean;
+    targetDuration?: number;
+    shardOverhead?: number;
   } = {}) {
     const projectRoot = config.projectRoot || process.cwd();
-    const totalShards = config.totalShards || this.detectOptimalShardCount();
+    const changedOnly = changedFilesArgs(config).length > 0;
 
     // Get test paths from Jest
     const testPaths = this.getTestPaths(projectRoot, config.jestConfig);
 
+    let totalShards = config.totalShards || this.detectOptimalShardCount(testPaths, projectRoot);
+
+    // A change set can be smaller than the shard count, and Jest fails shards without tests
+    if (changedOnly) {
+      totalShards = Math.max(1, Math.min(totalShards, testPaths.length));
+    }
+
+    // Queue workers only help while they can all run at once
+    if (config.mode === 'queue') {
+      totalShards = Math.min(totalShards, config.maxParallel || os.cpus().length);
+    }
+
+    // Resolve once so every later step agrees on the shard count
+    this.config.totalShards = totalShards;
+
     this.coordinator = new AutoShardCoordinator({
       totalShards,
       testPaths,
       projectRoot,
       jestConfig: config.jestConfig,
-      maxParallel: config.maxParallel
+      maxParallel: config.maxParallel,
+      strategy: config.strategy,
+      maxRetries: config.retries,
+      timeout: config.shardTimeout,
+      totalTimeout: config.totalTimeout,
+      quarantineFile: config.quarantineFile,
+      flakeLogFile: config.flakeLogFile,
+      changedSince: config.changedSince,
+      onlyChanged: config.onlyChanged
     });
   }
 
-  private detectOptimalShardCount(): number {
-    const cpuCount = os.cpus().length;
-    const testCount = this.estimateTestCount();
-
-    // Heuristic: Use CPU count, but cap at test file count / 10
-    const maxShards = Math.max(1, Math.floor(testCount / 10));
-    return Math.min(cpuCount, maxShards, 8); // Cap at 8 shards max
-  }
+  /**
+   * Chooses the shard count from the timing history, the per-shard startup
+   * overhead and, when given, the target wall time.
+   */
+  private detectOptimalShardCount(testPaths: string[], projectRoot: string): number {
+    if (testPaths.length === 0) {
+      return 1;
+    }
 
-  private estimateTestCount(): number {
-    try {
-      const output = execSync('npx jest --listTests', {
-        encoding: 'utf8',
-        stdio: ['pipe', 'pipe', 'ignore']
-      });
+    const recommendation = recommendShardCount({
+      durations: expectedDurations(testPaths, loadTimingHistory('.jest-shard-history.json'), projectRoot),
+      maxParallel: this.config.maxParallel || os.cpus().length,
+      targetDuration: this.config.targetDuration,
+      shardOverhead: this.config.shardOverhead
+    });
 
-      return output.split('\n').filter(line => line.trim()).length;
-    } catch {
-      // Default to 4 shards if we can't get test count
-      return 40;
+    const predicted = `${(recommendation.predictedWallTime / 1000).toFixed(1)}s`;
+    if (this.config.targetDuration !== undefined && !recommendation.meetsTarget) {
+      console.warn(`⚠ No shard count is predicted to finish within ${this.config.targetDuration / 1000}s; ` +
+        `using ${recommendation.shards} shards (~${predicted})`);
+    } else {
+      console.log(`🧮 Using ${recommendation.shards} shards, predicted wall time ~${predicted}`);
     }
+
+    return recommendation.shards;
   }
 
   private getTestPaths(projectRoot: string, jestConfig?: string): string[] {
-    try {
-      const args = ['jest', '--listTests'];
-      if (jestConfig) {
-        args.push('--config', jestConfig);
-      }
+    const changedArgs = changedFilesArgs(this.config);
+    const args = ['jest', '--listTests', ...changedArgs];
+    if (jestConfig) {
+      args.push('--config', jestConfig);
+    }
 
+    try {
       const output = execSync(`npx ${args.join(' ')}`, {
         encoding: 'utf8',
         cwd: projectRoot,
-        stdio: ['pipe', 'pipe', 'ignore']
+        stdio: ['pipe', 'pipe', 'pipe']
       });
 
       return output.split('\n').filter(line => line.trim());
-    } catch {
+    } catch (error) {
+      // An empty change set means nothing to run, so a bad ref must not pass for one
+      if (changedArgs.length > 0) {
+        const since = this.config.changedSince ? `since ${this.config.changedSince}` : 'in the working tree';
+        const stderr = String((error as { stderr?: string }).stderr || '').trim();
+        throw new Error(`Could not list the tests affected by changes ${since}${stderr ? `:\n${stderr}` : ''}`);
+      }
+      // Without a change set every shard lists its own tests, and fails there if Jest cannot
       return [];
     }
   }
 
-  public async run(): Promise<void> {
-    const totalShards = this.config.totalShards || this.detectOptimalShardCount();
+  public async run(): Promise<RunSummary> {
+    const totalShards = this.config.totalShards!;
+    const startTime = Date.now();
+
+    if (changedFilesArgs(this.config).length > 0 && this.coordinator.getRunnableTestPaths().length === 0) {
+      return this.finishWithoutTests(startTime);
+    }
 
     console.log(`🚀 Auto-sharding tests across ${totalShards} shards`);
     console.log(`📦 Max parallel shards: ${this.config.maxParallel || os.cpus().length}`);
+    if (this.config.mode === 'queue') {
+      console.log(`🧺 Queue mode: workers pull ${this.config.batchSize || 1} test file(s) at a time`);
+    } else {
+      console.log(`🧭 Sharding strategy: ${this.config.strategy || 'smart'}`);
+    }
+    if (changedFilesArgs(this.config).length > 0) {
+      const since = this.config.changedSince ? `since ${this.config.changedSince}` : 'in the working tree';
+      console.log(`🔎 Running the ${this.coordinator.getRunnableTestPaths().length} test file(s) affected by changes ${since}`);
+    }
+
+    const dashboard = this.config.dashboard ? this.createDashboard(totalShards) : undefined;
+    dashboard?.start();
 
-    await this.coordinator.runAllShards({
+    const shards = await this.coordinator.runAllShards({
       maxParallel: this.config.maxParallel,
+      mode: this.config.mode,
+      batchSize: this.config.batchSize,
+      retryMode: this.config.retryMode,
+      // Output written straight to the terminal would tear through the dashboard
+      output: dashboard && process.stdout.isTTY && (this.config.output || 'inherit') === 'inherit'
+        ? 'buffered'
+        : this.config.output,
+      logDir: this.config.logDir,
       onShardComplete: (shardId, exitCode) => {
         if (exitCode !== 0) {
           console.error(`❌ Shard ${shardId} failed with exit code ${exitCode}`);
@@ -386,15 +943,251 @@ export class AutoShardRunner {
       }
     });
 
+    dashboard?.stop();
+
+    // Shards write from the project root, wherever the run was started
+    const projectRoot = this.config.projectRoot || process.cwd();
+    const shardedCoverageDir = path.resolve(projectRoot, process.env.JEST_SHARD_COVERAGE_DIR || 'coverage-shards');
+    const finalCoverageDir = path.resolve(projectRoot, process.env.JEST_FINAL_COVERAGE_DIR || 'coverage-final');
+    const resultsCollector = new TestResultsCollector({
+      shardedResultsDir: shardedCoverageDir,
+      outputDir: path.resolve(projectRoot, 'test-results')
+    });
+
+    for (const shard of shards) {
+      const results = await resultsCollector.readShardResult(shard.shardId);
+      if (results) {
+        shard.tests = results.files.reduce((counts, file) => ({
+          total: counts.total + file.testCases.length,
+          passed: counts.passed + file.numPassingTests,
+          failed: counts.failed + file.numFailingTests,
+          pending: counts.pending + file.numPendingTests
+        }), { total: 0, passed: 0, failed: 0, pending: 0 });
+      }
+    }
+
+    // An interrupted run's reports and coverage would be partial
+    const interruptedBy = this.coordinator.interruptedBy;
+    if (interruptedBy) {
+      return this.finishInterrupted(interruptedBy, shards, startTime);
+    }
+
+    const quarantineExitCode = await this.coordinator.runQuarantined();
+    if (quarantineExitCode !== 0) {
+      console.warn(`⚠ Quarantined tests failed with exit code ${quarantineExitCode} (not failing the run)`);
+    }
+
+    // A strategy bug or a diverging test list would otherwise skip files silently
+    let testListCheck: TestListCheck | undefined;
+    const artifacts = await resultsCollector.readShardResults();
+    if (artifacts.length > 0 && shards.every(shard => shard.status === 'completed')) {
+      testListCheck = checkShardTestFiles(
+        artifacts,
+        this.coordinator.getRunnableTestPaths().map(testPath => toProjectPath(testPath, projectRoot))
+      );
+
+      if (!isTestListComplete(testListCheck)) {
+        console.error('❌ Shards did not run the expected test files:\n' + formatTestListCheck(testListCheck));
+      }
+    }
+
+    // Fold this run's per-shard timings into the history used by the smart strategy
+    try {
+      await new TimingCollector({
+        shardedTimingDir: shardedCoverageDir,
+        historyFile: path.resolve(projectRoot, '.jest-shard-history.json')
+      }).mergeHistory({ cleanupShardFiles: true });
+    } catch (error) {
+      console.warn('⚠ Could not update timing history:', error);
+    }
+
+    // Combine per-shard test outcomes into one JUnit/JSON report
+    try {
+      const results = await resultsCollector.generateReport();
+      console.log(`🧾 Test results: ${results.totals.passed} passed, ${results.totals.failed} failed (test-results/)`);
+    } catch (error) {
+      console.warn('⚠ Could not generate test results report:', error);
+    }
+
     // Merge coverage after all shards complete
     console.log('\n📊 Merging coverage reports...');
     const { mergeCoverageReports } = require('./index');
-    await mergeCoverageReports();
+    const coverageMerged = (coverageMap: CoverageMap) => this.coordinator.emit('coverage:merged', {
+      finalCoverageDir,
+      coverageMap,
+      summary: coverageMap.getCoverageSummary().toJSON()
+    });
+    let coverageError: string | undefined;
+    let thresholdViolations: ThresholdViolation[] | undefined;
+    try {
+      coverageMerged(await mergeCoverageReports({
+        runId: this.coordinator.runId,
+        jestConfig: this.config.jestConfig,
+        projectRoot,
+        shardedCoverageDir,
+        finalCoverageDir
+      }));
+    } catch (error) {
+      if (error instanceof CoverageThresholdError) {
+        // The reports are written; missing the thresholds only fails the run
+        thresholdViolations = error.violations;
+        if (error.coverageMap) {
+          coverageMerged(error.coverageMap);
+        }
+      } else {
+        // Shards that failed leave no coverage; the run still gets its summary and cleanup
+        coverageError = error instanceof Error ? error.message : String(error);
+      }
+    }
+
+    const summary: RunSummary = {
+      success: shards.length === totalShards &&
+        shards.every(shard => shard.status === 'completed') &&
+        (!testListCheck || isTestListComplete(testListCheck)) &&
+        !coverageError &&
+        !thresholdViolations,
+      totalShards,
+      duration: Date.now() - startTime,
+      shards,
+      tests: totalTests(shards),
+      quarantineExitCode,
+      testListCheck,
+      coverageError,
+      thresholdViolations
+    };
 
-    console.log('✅ All shards completed successfully!');
+    this.printSummary(summary);
 
     // Cleanup
     this.coordinator.cleanup();
+
+    this.coordinator.emit('run:complete', summary);
+
+    return summary;
+  }
+
+  /**
+   * Nothing is affected by the change set: no shards, no reports and no
+   * coverage merge, which would only fail for lack of shard coverage.
+   */
+  private finishWithoutTests(startTime: number): RunSummary {
+    const since = this.config.changedSince ? `since ${this.config.changedSince}` : 'in the working tree';
+    console.log(`✨ No tests affected by changes ${since}, nothing to run`);
+
+    const summary: RunSummary = {
+      success: true,
+      totalShards: 0,
+      duration: Date.now() - startTime,
+      shards: [],
+      tests: { total: 0, passed: 0, failed: 0, pending: 0 },
+      quarantineExitCode: 0
+    };
+
+    this.coordinator.emit('run:complete', summary);
+    return summary;
+  }
+
+  /**
+   * A signal stopped the shards: the quarantine pass, the reports and the
+   * coverage merge are skipped, but the run is still summarized and cleaned up.
+   */
+  private finishInterrupted(signal: 'SIGINT' | 'SIGTERM', shards: ShardRunResult[], startTime: number): RunSummary {
+    const summary: RunSummary = {
+      success: false,
+      totalShards: this.config.totalShards!,
+      duration: Date.now() - startTime,
+      shards,
+      tests: totalTests(shards),
+      quarantineExitCode: 0,
+      interruptedBy: signal
+    };
+
+    this.printSummary(summary);
+    this.coordinator.cleanup();
+    this.coordinator.emit('run:complete', summary);
+    return summary;
+  }
+
+  private createDashboard(totalShards: number): ShardDashboard {
+    const projectRoot = this.config.projectRoot || process.cwd();
+    const history = loadTimingHistory('.jest-shard-history.json');
+    const estimates: Record<string, number> = {};
+    for (const [testPath, entry] of Object.entries(history.tests)) {
+      estimates[testPath] = entry.duration;
+    }
+
+    const dashboard = new ShardDashboard({
+      totalShards,
+      maxParallel: this.config.maxParallel || os.cpus().length,
+      testFiles: this.coordinator.getRunnableTestPaths().map(testPath => toProjectPath(testPath, projectRoot)),
+      estimates
+    });
+    dashboard.attach(this.coordinator);
+    return dashboard;
+  }
+
+  /**
+   * Subscribes to the coordinator's events, e.g. to follow a run in-process.
+   */
+  public on<E extends keyof AutoShardEvents>(event: E, listener: (payload: AutoShardEvents[E]) => void): this {
+    this.coordinator.on(event, listener);
+    return this;
+  }
+
+  public off<E extends keyof AutoShardEvents>(event: E, listener: (payload: AutoShardEvents[E]) => void): this {
+    this.coordinator.off(event, listener);
+    return this;
+  }
+
+  private printSummary(summary: RunSummary): void {
+    const rows = summary.shards.map(shard => [
+      `${shard.shardId}/${summary.totalShards}`,
+      shard.status === 'completed' ? '✅ passed' : '❌ failed',
+      shard.reason === 'timeout' || shard.reason === 'interrupted'
+        ? shard.reason
+        : shard.signal ? shard.signal : String(shard.exitCode),
+      `${(shard.duration / 1000).toFixed(1)}s`,
+      String(shard.attempts),
+      shard.tests ? `${shard.tests.passed}/${shard.tests.total}` : '-',
+      shard.tests ? String(shard.tests.failed) : '-'
+    ]);
+    const header = ['Shard', 'Status', 'Exit', 'Duration', 'Attempts', 'Passed', 'Failed'];
+    const widths = header.map((title, column) => Math.max(title.length, ...rows.map(row => row[column].length)));
+    const formatRow = (row: string[]) => '  ' + row.map((cell, column) => cell.padEnd(widths[column])).join('  ');
+
+    console.log('\n📋 Run summary');
+    console.log(formatRow(header));
+    console.log(formatRow(widths.map(width => '─'.repeat(width))));
+    for (const row of rows) {
+      console.log(formatRow(row));
+    }
+
+    const { tests } = summary;
+    console.log(`\n  Tests: ${tests.passed} passed, ${tests.failed} failed, ${tests.pending} pending, ${tests.total} total`);
+    console.log(`  Time:  ${(summary.duration / 1000).toFixed(1)}s`);
+
+    if (summary.success) {
+      console.log('\n✅ All shards completed successfully!');
+    } else {
+      const failed = summary.shards.filter(shard => shard.status === 'failed').map(shard => shard.shardId);
+      if (failed.length > 0) {
+        console.error(`\n❌ ${failed.length} shard(s) failed: ${failed.join(', ')}`);
+      }
+      if (summary.testListCheck && !isTestListComplete(summary.testListCheck)) {
+        const { missing, duplicated, unexpected } = summary.testListCheck;
+        console.error(`\n❌ Test files not run exactly once: ${missing.length} missing, ` +
+          `${duplicated.length} duplicated, ${unexpected.length} unexpected`);
+      }
+      if (summary.interruptedBy) {
+        console.error(`\n❌ Run stopped by ${summary.interruptedBy}; no reports or merged coverage were written`);
+      }
+      if (summary.thresholdViolations) {
+        console.error(`\n❌ Merged coverage missed ${summary.thresholdViolations.length} coverage threshold(s)`);
+      }
+      if (summary.coverageError) {
+        console.error(`\n❌ Coverage was not merged: ${summary.coverageError.split('\n')[0]}`);
+      }
+    }
   }
 
   public async runSingleShard(): Promise<number> {
@@ -405,11 +1198,11 @@ export class AutoShardRunner {
       return 0;
     }
 
-    console.log(`Running as shard ${shardId}/${this.config.totalShards || this.detectOptimalShardCount()}`);
+    console.log(`Running as shard ${shardId}/${this.config.totalShards}`);
 
     // Set environment variables for Jest
     process.env.JEST_SHARD_INDEX = shardId.toString();
-    process.env.JEST_TOTAL_SHARDS = (this.config.totalShards || this.detectOptimalShardCount()).toString();
+    process.env.JEST_TOTAL_SHARDS = this.config.totalShards!.toString();
     process.env.JEST_AUTO_SHARD = 'true';
 
     return shardId;
@@ -1,16 +1,86 @@
 #!/usr/bin/env node
 
 import { Command } from 'commander';
-import { AutoShardRunner, AutoShardCoordinator } from './auto-shard';
+import { AutoShardRunner, AutoShardCoordinator, runExitCode } from './auto-shard';
 import { mergeCoverageReports } from './index';
+import { SHARDING_STRATEGIES, isShardingStrategyName } from './sharding-strategy';
+import { TimingCollector, loadTimingHistory } from './timing-history';
+import { expectedDurations, recommendShardCount } from './shard-advisor';
+import { toProjectPath } from './paths';
+import { previewDistributions } from './distribution-preview';
+import { TestListMismatchError, formatTestListCheck, verifyShardTestFiles } from './shard-verification';
+import { isQuarantined, loadQuarantineList } from './flaky-tests';
+import { TestResultsCollector } from './test-results';
+import { ShardPlanError, createShardPlan, readShardPlan } from './shard-plan';
+import { COVERAGE_INPUT_FORMATS, isCoverageInputFormat } from './coverage-formats';
+import { diffCoverage, formatCoverageDiff, formatCoverageDiffMarkdown, loadCoverageReport, parseUnifiedDiff } from './coverage-diff';
+import {
+  formatWhoCovers,
+  isCoverageAttributionLevel,
+  parseLineRanges,
+  readAttributionArtifacts,
+  whoCovers
+} from './coverage-attribution';
 import chalk from 'chalk';
 import * as os from 'os';
-import { execSync } from 'child_process';
+import { execFileSync, execSync } from 'child_process';
 import * as path from 'path';
 import * as fs from 'fs';
 
 const program = new Command();
 
+/**
+ * Files the shards should have run between them: the files of a plan, or a
+ * fresh `jest --listTests` without quarantined files.
+ */
+function expectedTestFiles(options: { verify: true | string; config?: string; quarantine?: string }): string[] {
+  if (typeof options.verify === 'string') {
+    const plan = readShardPlan(options.verify);
+    return plan.shards.flatMap(shard => shard.files.map(file => file.path));
+  }
+
+  const args = ['jest', '--listTests'];
+  if (options.config) {
+    args.push('--config', options.config);
+  }
+
+  const output = execSync(`npx ${args.join(' ')}`, {
+    encoding: 'utf8',
+    stdio: ['pipe', 'pipe', 'ignore']
+  });
+  const quarantined = options.quarantine ? loadQuarantineList(options.quarantine) : [];
+
+  return output.split('\n')
+    .filter(line => line.trim())
+    .filter(file => !isQuarantined(file, quarantined))
+    .map(file => toProjectPath(file));
+}
+
+/**
+ * Exits unless every expected test file ran in exactly one shard.
+ */
+async function verifyShardResults(source: string, options: { verify: true | string; config?: string; quarantine?: string }) {
+  const artifacts = await new TestResultsCollector({ shardedResultsDir: source }).readShardResults();
+
+  if (artifacts.length === 0) {
+    console.error(chalk.red(`Error: No shard results files in ${source} to verify the test list against`));
+    process.exit(1);
+  }
+
+  try {
+    const check = verifyShardTestFiles(artifacts, expectedTestFiles(options));
+    console.log(chalk.green(`  ✓ All ${check.expected} test files ran in exactly one of ${artifacts.length} shard(s)\n`));
+  } catch (error) {
+    if (error instanceof TestListMismatchError) {
+      console.error(chalk.red('✗ Shards did not run the expected test files:\n'));
+      console.error(formatTestListCheck(error.check));
+    } else {
+      console.error(chalk.red('Error verifying the test list:'), error);
+    }
+    process.exit(1);
+  }
+}
+
 program
   .name('jest-shard')
   .description('Automatically shard and run Jest tests with coverage merging')
@@ -22,9 +92,26 @@ program
   .option('-s, --shards <number>', 'Number of shards (auto-detects if not specified)')
   .option('-p, --parallel <number>', 'Max parallel shards (defaults to CPU count)')
   .option('-c, --config <path>', 'Path to Jest config file')
+  .option('--strategy <name>', `Sharding strategy (${SHARDING_STRATEGIES.join(', ')})`, 'smart')
+  .option('--mode <mode>', 'Scheduling mode: static (fixed shards) or queue (work-stealing workers)', 'static')
+  .option('--batch-size <number>', 'Test files a queue worker takes at a time', '1')
+  .option('--retries <number>', 'Times to retry a failed shard', '0')
+  .option('--retry-mode <mode>', 'Retry the whole shard or only its failing files (shard, files)', 'files')
+  .option('--quarantine <file>', 'JSON list of test files to run in a separate non-blocking pass')
+  .option('--flake-log <file>', 'File recording tests that passed on retry', '.jest-shard-flakes.json')
+  .option('--shard-timeout <seconds>', 'Kill a shard that runs longer than this')
+  .option('--total-timeout <seconds>', 'Stop all shards when the whole run takes longer than this')
+  .option('--output <mode>', 'Shard output: inherit (interleaved), prefix (tag each line) or buffered (one block per shard)', 'inherit')
+  .option('--log-dir <dir>', 'Directory for per-shard log files in prefix and buffered output modes', 'shard-logs')
+  .option('--dashboard', 'Show live per-shard progress (a redrawn table on a terminal, periodic lines in CI)')
+  .option('--changed-since <ref>', 'Only run tests affected by changes since this git ref')
+  .option('--only-changed', 'Only run tests affected by uncommitted changes')
+  .option('--target-duration <seconds>', 'Without --shards, use the fewest shards predicted to finish within this time')
+  .option('--shard-overhead <seconds>', 'Startup cost of one shard used to predict wall time', '2')
   .option('--coverage-dir <dir>', 'Directory for final merged coverage (default: coverage-final)')
   .option('--shard-coverage-dir <dir>', 'Directory for shard coverage files (default: coverage-shards)')
   .option('--no-coverage', 'Disable coverage collection')
+  .option('--attribution <level>', 'Record which shards (shards) or test files (tests) hit each line, for coverage who-covers')
   .option('--verbose', 'Enable verbose output')
   .action(async (options) => {
     console.log(chalk.bold.cyan('\n🚀 Jest Shard Reporter - Auto Runner\n'));
@@ -43,6 +130,66 @@ program
       process.exit(1);
     }
 
+    if (!isShardingStrategyName(options.strategy)) {
+      console.error(chalk.red(`Error: Unknown strategy "${options.strategy}". Use one of: ${SHARDING_STRATEGIES.join(', ')}`));
+      process.exit(1);
+    }
+
+    if (options.mode !== 'static' && options.mode !== 'queue') {
+      console.error(chalk.red(`Error: Unknown mode "${options.mode}". Use static or queue`));
+      process.exit(1);
+    }
+
+    const batchSize = parseInt(options.batchSize);
+    if (isNaN(batchSize) || batchSize < 1) {
+      console.error(chalk.red('Error: Invalid batch size'));
+      process.exit(1);
+    }
+
+    const retries = parseInt(options.retries);
+    if (isNaN(retries) || retries < 0) {
+      console.error(chalk.red('Error: Invalid retry count'));
+      process.exit(1);
+    }
+
+    if (options.retryMode !== 'shard' && options.retryMode !== 'files') {
+      console.error(chalk.red(`Error: Unknown retry mode "${options.retryMode}". Use shard or files`));
+      process.exit(1);
+    }
+
+    const shardTimeout = options.shardTimeout ? parseFloat(options.shardTimeout) : undefined;
+    const totalTimeout = options.totalTimeout ? parseFloat(options.totalTimeout) : undefined;
+
+    for (const timeout of [shardTimeout, totalTimeout]) {
+      if (timeout !== undefined && (isNaN(timeout) || timeout <= 0)) {
+        console.error(chalk.red('Error: Invalid timeout'));
+        process.exit(1);
+      }
+    }
+
+    const targetDuration = options.targetDuration ? parseFloat(options.targetDuration) : undefined;
+    const shardOverhead = parseFloat(options.shardOverhead);
+
+    if ((targetDuration !== undefined && (isNaN(targetDuration) || targetDuration <= 0)) || isNaN(shardOverhead) || shardOverhead < 0) {
+      console.error(chalk.red('Error: Invalid target duration or shard overhead'));
+      process.exit(1);
+    }
+
+    if (!['inherit', 'prefix', 'buffered'].includes(options.output)) {
+      console.error(chalk.red(`Error: Unknown output mode "${options.output}". Use inherit, prefix or buffered`));
+      process.exit(1);
+    }
+
+    if (options.quarantine && !fs.existsSync(options.quarantine)) {
+      console.error(chalk.red(`Error: Quarantine list ${options.quarantine} not found`));
+      process.exit(1);
+    }
+
+    if (options.attribution !== undefined && !isCoverageAttributionLevel(options.attribution)) {
+      console.error(chalk.red(`Error: Unknown attribution "${options.attribution}". Use shards or tests`));
+      process.exit(1);
+    }
+
     // Set environment variables if custom directories are provided
     if (options.coverageDir) {
       process.env.JEST_FINAL_COVERAGE_DIR = options.coverageDir;
@@ -50,17 +197,36 @@ program
     if (options.shardCoverageDir) {
       process.env.JEST_SHARD_COVERAGE_DIR = options.shardCoverageDir;
     }
+    if (options.attribution) {
+      process.env.JEST_SHARD_ATTRIBUTION = options.attribution;
+    }
 
     try {
       const runner = new AutoShardRunner({
         totalShards,
         maxParallel,
         jestConfig: options.config,
-        projectRoot: process.cwd()
+        projectRoot: process.cwd(),
+        strategy: options.strategy,
+        mode: options.mode,
+        batchSize,
+        retries,
+        retryMode: options.retryMode,
+        quarantineFile: options.quarantine,
+        flakeLogFile: options.flakeLog,
+        shardTimeout: shardTimeout && shardTimeout * 1000,
+        totalTimeout: totalTimeout && totalTimeout * 1000,
+        output: options.output,
+        logDir: options.logDir,
+        dashboard: options.dashboard,
+        changedSince: options.changedSince,
+        onlyChanged: options.onlyChanged,
+        targetDuration: targetDuration && targetDuration * 1000,
+        shardOverhead: shardOverhead * 1000
       });
 
-      await runner.run();
-      process.exit(0);
+      const summary = await runner.run();
+      process.exit(runExitCode(summary));
     } catch (error) {
       console.error(chalk.red('Error:'), error);
       process.exit(1);
@@ -72,25 +238,337 @@ program
   .description('Merge coverage reports from all shards')
   .option('-s, --source <dir>', 'Source directory for shard coverage files', 'coverage-shards')
   .option('-o, --output <dir>', 'Output directory for merged coverage', 'coverage-final')
-  .option('-f, --formats <formats>', 'Report formats (comma-separated)', 'html,text,lcov,json')
+  .option('-f, --formats <formats>', "Report formats, comma-separated (default: the Jest config's coverageReporters)")
+  .option('--watermarks <json>', 'Report watermarks as JSON, e.g. {"lines":[60,90]}')
+  .option('--reporter-options <json>', 'Options per report format as JSON, e.g. {"text":{"maxCols":120}}')
+  .option('--skip-full', 'Leave fully covered files out of the reports')
+  .option('--skip-empty', 'Leave files without statements out of the reports')
   .option('--cleanup', 'Clean up shard files after merging')
+  .option('-c, --config <path>', 'Jest config to read coverageThreshold from')
+  .option('--threshold <json>', 'Coverage thresholds as JSON, in Jest coverageThreshold format')
+  .option('--no-threshold', 'Skip coverage threshold checks')
+  .option('--collect-coverage-from <globs...>', 'Report files matching these globs with zero coverage when no shard loaded them (defaults to the Jest config)')
+  .option('--no-collect-coverage-from', 'Only report files the shards loaded')
+  .option('--strip-prefix <prefixes...>', 'Remove these prefixes from source paths recorded on other machines')
+  .option('--path-map <mappings...>', 'Rewrite source path prefixes before merging, as from=to')
+  .option('-i, --input <files...>', 'More coverage files or globs to merge (Istanbul JSON, LCOV or Cobertura XML)')
+  .option('--input-format <format>', `Format of the --input files: auto, ${COVERAGE_INPUT_FORMATS.join(', ')}`, 'auto')
+  .option('--run-id <id>', "Merge this run's shards (default: the run of the newest shard file)")
+  .option('--allow-mismatched-shards', 'Merge despite missing shards or shards from other runs, with a warning')
+  .option('--verbose', 'Print the size and merge time of each shard file')
+  .option('--verify [plan]', 'Fail unless every test file ran in exactly one shard, checked against a fresh listing or a plan file')
+  .option('--quarantine <file>', 'Quarantine list to leave out of the fresh listing for --verify')
   .action(async (options) => {
     console.log(chalk.bold.blue('\n📊 Merging Coverage Reports\n'));
 
-    const formats = options.formats.split(',').map((f: string) => f.trim());
+    if (options.verify) {
+      await verifyShardResults(options.source, options);
+    }
+
+    const formats = options.formats?.split(',').map((f: string) => f.trim());
+
+    const parseJsonOption = (value: string | undefined, flag: string) => {
+      if (value === undefined) {
+        return undefined;
+      }
+      try {
+        return JSON.parse(value);
+      } catch {
+        console.error(chalk.red(`Error: ${flag} must be valid JSON`));
+        process.exit(1);
+      }
+    };
+    const watermarks = parseJsonOption(options.watermarks, '--watermarks');
+    const reporterOptions = parseJsonOption(options.reporterOptions, '--reporter-options');
+
+    let coverageThreshold;
+    if (options.threshold === false) {
+      coverageThreshold = false as const;
+    } else if (typeof options.threshold === 'string') {
+      try {
+        coverageThreshold = JSON.parse(options.threshold);
+      } catch {
+        console.error(chalk.red('Error: --threshold must be valid JSON'));
+        process.exit(1);
+      }
+    }
+
+    if (options.inputFormat !== 'auto' && !isCoverageInputFormat(options.inputFormat)) {
+      console.error(chalk.red(`Error: --input-format must be auto, ${COVERAGE_INPUT_FORMATS.join(', ')}`));
+      process.exit(1);
+    }
+
+    const pathMap: Record<string, string> = {};
+    for (const mapping of options.pathMap || []) {
+      const separator = mapping.indexOf('=');
+      if (separator <= 0) {
+        console.error(chalk.red(`Error: --path-map expects from=to, got "${mapping}"`));
+        process.exit(1);
+      }
+      pathMap[mapping.slice(0, separator)] = mapping.slice(separator + 1);
+    }
 
     try {
       await mergeCoverageReports({
         shardedCoverageDir: options.source,
         finalCoverageDir: options.output,
         reportFormats: formats,
-        cleanupShardFiles: options.cleanup
+        watermarks,
+        reporterOptions,
+        skipFull: options.skipFull,
+        skipEmpty: options.skipEmpty,
+        cleanupShardFiles: options.cleanup,
+        coverageThreshold,
+        collectCoverageFrom: options.collectCoverageFrom,
+        stripPrefix: options.stripPrefix,
+        pathMap,
+        inputs: options.input,
+        inputFormat: options.inputFormat === 'auto' ? undefined : options.inputFormat,
+        runId: options.runId,
+        allowMismatchedShards: options.allowMismatchedShards,
+        verbose: options.verbose,
+        jestConfig: options.config
       });
 
       console.log(chalk.green('✅ Coverage merged successfully!'));
       console.log(chalk.dim(`Output: ${options.output}/`));
+    } catch {
+      // mergeCoverageReports has already reported what went wrong
+      process.exit(1);
+    }
+  });
+
+program
+  .command('report')
+  .description('Merge test results from all shards into JUnit XML and JSON reports')
+  .option('-s, --source <dir>', 'Source directory for shard results files', 'coverage-shards')
+  .option('-o, --output <dir>', 'Output directory for merged reports', 'test-results')
+  .option('-c, --config <path>', 'Path to Jest config file, for the fresh listing of --verify')
+  .option('--verify [plan]', 'Fail unless every test file ran in exactly one shard, checked against a fresh listing or a plan file')
+  .option('--quarantine <file>', 'Quarantine list to leave out of the fresh listing for --verify')
+  .action(async (options) => {
+    console.log(chalk.bold.blue('\n🧾 Merging Test Results\n'));
+
+    if (options.verify) {
+      await verifyShardResults(options.source, options);
+    }
+
+    try {
+      const collector = new TestResultsCollector({
+        shardedResultsDir: options.source,
+        outputDir: options.output
+      });
+
+      const results = await collector.generateReport();
+      const { totals } = results;
+
+      console.log(`  Test files: ${totals.testFiles} across ${results.shards.length} shard(s)`);
+      console.log(`  Tests:      ${chalk.green(`${totals.passed} passed`)}, ${totals.failed > 0 ? chalk.red(`${totals.failed} failed`) : '0 failed'}, ${totals.pending} pending`);
+
+      for (const failure of results.failures) {
+        console.log(chalk.red(`  ✗ [shard ${failure.shard}] ${failure.file} › ${failure.test}`));
+      }
+
+      console.log(chalk.green('\n✅ Test results merged successfully!'));
+      console.log(chalk.dim(`Output: ${options.output}/junit.xml, ${options.output}/results.json`));
+    } catch (error) {
+      console.error(chalk.red('Error merging test results:'), error);
+      process.exit(1);
+    }
+  });
+
+const history = program
+  .command('history')
+  .description('Manage per-test-file timing history used by the smart strategy');
+
+history
+  .command('merge')
+  .description('Merge per-shard timing files into the timing history')
+  .option('-s, --source <dir>', 'Source directory for shard timing files', 'coverage-shards')
+  .option('--history <file>', 'Timing history file to update', '.jest-shard-history.json')
+  .option('--smoothing <factor>', 'Weight of the newest sample in the moving average (0-1]', '0.3')
+  .option('--cleanup', 'Clean up shard timing files after merging')
+  .action(async (options) => {
+    console.log(chalk.bold.blue('\n⏱  Merging Timing History\n'));
+
+    try {
+      const collector = new TimingCollector({
+        shardedTimingDir: options.source,
+        historyFile: options.history,
+        smoothing: parseFloat(options.smoothing)
+      });
+
+      const merged = await collector.mergeHistory({ cleanupShardFiles: options.cleanup });
+
+      console.log(chalk.green(`✅ Timing history updated for ${Object.keys(merged.tests).length} test file(s)`));
+      console.log(chalk.dim(`Output: ${options.history}`));
+    } catch (error) {
+      console.error(chalk.red('Error merging timing history:'), error);
+      process.exit(1);
+    }
+  });
+
+const coverage = program
+  .command('coverage')
+  .description('Inspect merged coverage reports');
+
+coverage
+  .command('diff')
+  .description('Compare merged coverage with a baseline report, e.g. from the target branch')
+  .requiredOption('--base <file>', 'Baseline coverage-final.json')
+  .option('--head <file>', 'Coverage to compare against the baseline', 'coverage-final/coverage-final.json')
+  .option('--diff <file>', 'Unified diff (git diff output) whose added lines are checked')
+  .option('--changed-since <ref>', 'Check the lines added since this git ref')
+  .option('--min-changed-lines <pct>', 'Fail when coverage of the changed lines is below this percentage')
+  .option('--format <format>', 'Output format: text, markdown or json', 'text')
+  .option('-o, --output <file>', 'Write the report to a file instead of stdout')
+  .action(async (options) => {
+    if (!['text', 'markdown', 'json'].includes(options.format)) {
+      console.error(chalk.red('Error: --format must be text, markdown or json'));
+      process.exit(1);
+    }
+
+    const minChangedLines = options.minChangedLines === undefined ? undefined : parseFloat(options.minChangedLines);
+    if (minChangedLines !== undefined && (isNaN(minChangedLines) || minChangedLines < 0 || minChangedLines > 100)) {
+      console.error(chalk.red('Error: --min-changed-lines must be a percentage between 0 and 100'));
+      process.exit(1);
+    }
+
+    if (minChangedLines !== undefined && !options.diff && !options.changedSince) {
+      console.error(chalk.red('Error: --min-changed-lines needs --diff or --changed-since'));
+      process.exit(1);
+    }
+
+    for (const file of [options.base, options.head]) {
+      if (!fs.existsSync(file)) {
+        console.error(chalk.red(`Error: Coverage report ${file} not found`));
+        process.exit(1);
+      }
+    }
+
+    let changedLines;
+    try {
+      if (options.diff) {
+        changedLines = parseUnifiedDiff(fs.readFileSync(options.diff, 'utf8'));
+      } else if (options.changedSince) {
+        changedLines = parseUnifiedDiff(execFileSync('git', ['diff', '--relative', '--unified=0', options.changedSince], {
+          encoding: 'utf8',
+          maxBuffer: 64 * 1024 * 1024
+        }));
+      }
+    } catch (error) {
+      console.error(chalk.red('Error reading the changed lines:'), error);
+      process.exit(1);
+    }
+
+    const diff = diffCoverage(loadCoverageReport(options.base), loadCoverageReport(options.head), { changedLines });
+
+    const report = options.format === 'json'
+      ? JSON.stringify(diff, null, 2) + '\n'
+      : options.format === 'markdown'
+        ? formatCoverageDiffMarkdown(diff, { minChangedLines })
+        : formatCoverageDiff(diff) + '\n';
+
+    if (options.output) {
+      fs.writeFileSync(options.output, report);
+      console.log(chalk.dim(`Coverage diff written to ${options.output}`));
+    } else {
+      process.stdout.write(report);
+    }
+
+    if (minChangedLines !== undefined && diff.changedLines!.pct < minChangedLines) {
+      console.error(chalk.red(`\n✗ Coverage of changed lines (${diff.changedLines!.pct}%) is below ${minChangedLines}%`));
+      process.exit(1);
+    }
+  });
+
+coverage
+  .command('who-covers <file>')
+  .description('Show which shards, and test files where recorded, hit a source file')
+  .option('-s, --source <dir>', 'Directory with the shard attribution files', 'coverage-shards')
+  .option('--lines <ranges>', 'Only these lines, e.g. 10-20,25')
+  .option('--run-id <id>', "Use this run's attribution (default: the newest run's)")
+  .option('--format <format>', 'Output format: text or json', 'text')
+  .action(async (file, options) => {
+    if (!['text', 'json'].includes(options.format)) {
+      console.error(chalk.red('Error: --format must be text or json'));
+      process.exit(1);
+    }
+
+    let lines: number[] | undefined;
+    try {
+      lines = options.lines === undefined ? undefined : parseLineRanges(options.lines);
+    } catch (error) {
+      console.error(chalk.red(`Error: ${error instanceof Error ? error.message : error}`));
+      process.exit(1);
+    }
+
+    const artifacts = await readAttributionArtifacts(options.source);
+    if (artifacts.length === 0) {
+      console.error(chalk.red(`Error: No attribution files in ${options.source}. Run the shards with --attribution shards or tests`));
+      process.exit(1);
+    }
+
+    const attribution = whoCovers(artifacts, toProjectPath(file), { lines, runId: options.runId });
+
+    if (options.format === 'json') {
+      process.stdout.write(JSON.stringify(attribution, null, 2) + '\n');
+    } else {
+      console.log(formatWhoCovers(attribution, { lines }));
+    }
+  });
+
+program
+  .command('plan')
+  .description('Assign test files to shards once and save the assignment for CI jobs')
+  .option('-s, --shards <number>', 'Number of shards')
+  .option('-o, --out <file>', 'Plan file to write', 'shard-plan.json')
+  .option('-c, --config <path>', 'Path to Jest config file')
+  .option('--strategy <name>', `Sharding strategy (${SHARDING_STRATEGIES.join(', ')})`, 'smart')
+  .option('--history <file>', 'Timing history for expected durations and the smart strategy', '.jest-shard-history.json')
+  .action((options) => {
+    const totalShards = parseInt(options.shards);
+
+    if (!totalShards || totalShards < 1) {
+      console.error(chalk.red('Error: --shards is required and must be a positive number'));
+      process.exit(1);
+    }
+
+    if (!isShardingStrategyName(options.strategy)) {
+      console.error(chalk.red(`Error: Unknown strategy "${options.strategy}". Use one of: ${SHARDING_STRATEGIES.join(', ')}`));
+      process.exit(1);
+    }
+
+    try {
+      const args = ['jest', '--listTests'];
+      if (options.config) {
+        args.push('--config', options.config);
+      }
+
+      const output = execSync(`npx ${args.join(' ')}`, {
+        encoding: 'utf8',
+        stdio: ['pipe', 'pipe', 'ignore']
+      });
+
+      const plan = createShardPlan({
+        testPaths: output.split('\n').filter(line => line.trim()),
+        totalShards,
+        strategy: options.strategy,
+        historyFile: options.history
+      });
+
+      fs.writeFileSync(options.out, JSON.stringify(plan, null, 2));
+
+      console.log(chalk.bold(`\n🗺  Shard plan: ${plan.testCount} test files across ${totalShards} shards (${plan.strategy})\n`));
+      for (const shard of plan.shards) {
+        const unknown = shard.files.filter(file => file.expectedDuration === undefined).length;
+        console.log(`  Shard ${shard.index}: ${chalk.green(shard.files.length + ' files')}, ` +
+          `~${(shard.expectedDuration / 1000).toFixed(1)}s expected` +
+          (unknown > 0 ? chalk.dim(` (${unknown} without history)`) : ''));
+      }
+      console.log(chalk.dim(`\nOutput: ${options.out}`));
     } catch (error) {
-      console.error(chalk.red('Error merging coverage:'), error);
+      console.error(chalk.red('Error creating shard plan:'), error);
       process.exit(1);
     }
   });
@@ -99,13 +577,36 @@ program
   .command('test')
   .description('Run a single test shard (for CI/CD)')
   .option('-i, --index <number>', 'Shard index to run')
-  .option('-t, --total <number>', 'Total number of shards')
+  .option('-t, --total <number>', 'Total number of shards (taken from the plan with --plan)')
   .option('-c, --config <path>', 'Path to Jest config file')
+  .option('--strategy <name>', `Sharding strategy (${SHARDING_STRATEGIES.join(', ')})`, 'smart')
+  .option('--plan <file>', 'Run the files assigned to this shard in a plan from `jest-shard plan`')
+  .option('--changed-since <ref>', 'Only run tests affected by changes since this git ref')
+  .option('--only-changed', 'Only run tests affected by uncommitted changes')
   .option('--coverage-dir <dir>', 'Directory for final merged coverage (default: coverage-final)')
   .option('--shard-coverage-dir <dir>', 'Directory for shard coverage files (default: coverage-shards)')
+  .option('--attribution <level>', 'Record which shards (shards) or test files (tests) hit each line, for coverage who-covers')
   .action((options) => {
     const shardIndex = parseInt(options.index);
-    const totalShards = parseInt(options.total);
+    let totalShards = parseInt(options.total);
+
+    if (options.plan) {
+      try {
+        const plan = readShardPlan(options.plan);
+
+        if (totalShards && totalShards !== plan.totalShards) {
+          console.error(chalk.red(`Error: --total ${totalShards} does not match the ${plan.totalShards} shards in ${options.plan}`));
+          process.exit(1);
+        }
+        totalShards = plan.totalShards;
+      } catch (error) {
+        console.error(chalk.red(`Error: ${error instanceof ShardPlanError ? error.message : error}`));
+        process.exit(1);
+      }
+
+      // The test sequencer selects the planned files and rejects a stale plan
+      process.env.JEST_SHARD_PLAN = path.resolve(options.plan);
+    }
 
     if (!shardIndex || !totalShards) {
       console.error(chalk.red('Error: Both --index and --total are required'));
@@ -117,11 +618,22 @@ program
       process.exit(1);
     }
 
+    if (!isShardingStrategyName(options.strategy)) {
+      console.error(chalk.red(`Error: Unknown strategy "${options.strategy}". Use one of: ${SHARDING_STRATEGIES.join(', ')}`));
+      process.exit(1);
+    }
+
+    if (options.attribution !== undefined && !isCoverageAttributionLevel(options.attribution)) {
+      console.error(chalk.red(`Error: Unknown attribution "${options.attribution}". Use shards or tests`));
+      process.exit(1);
+    }
+
     console.log(chalk.cyan(`Running shard ${shardIndex}/${totalShards}`));
 
     // Set environment variables
     process.env.JEST_SHARD_INDEX = shardIndex.toString();
     process.env.JEST_TOTAL_SHARDS = totalShards.toString();
+    process.env.JEST_SHARD_STRATEGY = options.strategy;
 
     // Set custom coverage directories if provided
     if (options.coverageDir) {
@@ -130,13 +642,30 @@ program
     if (options.shardCoverageDir) {
       process.env.JEST_SHARD_COVERAGE_DIR = options.shardCoverageDir;
     }
+    if (options.attribution) {
+      process.env.JEST_SHARD_ATTRIBUTION = options.attribution;
+    }
 
     // Run Jest
-    const args = ['jest', `--shard=${shardIndex}/${totalShards}`];
+    // Thresholds are enforced on the merged coverage by `jest-shard merge`
+    const args = [
+      'jest',
+      `--shard=${shardIndex}/${totalShards}`,
+      '--testSequencer',
+      path.join(__dirname, 'test-sequencer.js'),
+      '--coverageThreshold={}'
+    ];
     if (options.config) {
       args.push('--config', options.config);
     }
 
+    // Every job narrows the suite to the same change set; some shards may end up empty
+    if (options.changedSince) {
+      args.push(`--changedSince=${options.changedSince}`, '--passWithNoTests');
+    } else if (options.onlyChanged) {
+      args.push('--onlyChanged', '--passWithNoTests');
+    }
+
     try {
       execSync(`npx ${args.join(' ')}`, {
         stdio: 'inherit'
@@ -150,9 +679,13 @@ program
   .command('analyze')
   .description('Analyze test distribution and provide recommendations')
   .option('-c, --config <path>', 'Path to Jest config file')
+  .option('-s, --shards <number>', 'Shard count to preview (defaults to the recommendation)')
+  .option('-p, --parallel <number>', 'Max parallel shards (defaults to CPU count)')
+  .option('--target-duration <seconds>', 'Recommend the fewest shards predicted to finish within this time')
+  .option('--shard-overhead <seconds>', 'Startup cost of one shard used to predict wall time', '2')
+  .option('--history <file>', 'Timing history with per-file durations', '.jest-shard-history.json')
+  .option('--json', 'Print the analysis as JSON')
   .action((options) => {
-    console.log(chalk.bold.cyan('\n📊 Analyzing Test Distribution\n'));
-
     try {
       // Get test files
       const args = ['jest', '--listTests'];
@@ -168,10 +701,6 @@ program
       const testFiles = output.split('\n').filter(line => line.trim());
       const cpuCount = os.cpus().length;
 
-      console.log(chalk.bold('Test Suite Analysis:'));
-      console.log(`  Total test files: ${chalk.green(testFiles.length)}`);
-      console.log(`  Available CPUs: ${chalk.green(cpuCount)}`);
-
       // Analyze file sizes
       let totalSize = 0;
       const fileSizes: { path: string; size: number }[] = [];
@@ -188,25 +717,77 @@ program
 
       fileSizes.sort((a, b) => b.size - a.size);
 
+      const history = loadTimingHistory(options.history);
+      const maxParallel = options.parallel ? parseInt(options.parallel) : cpuCount;
+      const recommendation = recommendShardCount({
+        durations: expectedDurations(testFiles, history),
+        maxParallel,
+        targetDuration: options.targetDuration ? parseFloat(options.targetDuration) * 1000 : undefined,
+        shardOverhead: parseFloat(options.shardOverhead) * 1000
+      });
+      const recommendedShards = recommendation.shards;
+      const previewShards = options.shards ? parseInt(options.shards) : recommendedShards;
+      const withHistory = testFiles.filter(file => history.tests[toProjectPath(file)]).length;
+
+      if (!previewShards || previewShards < 1) {
+        console.error(chalk.red('Error: Invalid shard count'));
+        process.exit(1);
+      }
+
+      const distributions = previewDistributions({
+        testPaths: testFiles,
+        totalShards: previewShards,
+        history,
+        historyFile: options.history
+      });
+
+      if (options.json) {
+        console.log(JSON.stringify({
+          generatedAt: new Date().toISOString(),
+          testFiles: testFiles.length,
+          totalBytes: totalSize,
+          filesWithHistory: withHistory,
+          cpus: cpuCount,
+          maxParallel,
+          recommendation,
+          shards: previewShards,
+          distributions
+        }, null, 2));
+        return;
+      }
+
+      console.log(chalk.bold.cyan('\n📊 Analyzing Test Distribution\n'));
+
+      console.log(chalk.bold('Test Suite Analysis:'));
+      console.log(`  Total test files: ${chalk.green(testFiles.length)}`);
+      console.log(`  Available CPUs: ${chalk.green(cpuCount)}`);
       console.log(`  Total test size: ${chalk.green((totalSize / 1024 / 1024).toFixed(2) + ' MB')}`);
       console.log(`  Avg file size: ${chalk.green((totalSize / fileSizes.length / 1024).toFixed(2) + ' KB')}`);
 
       // Recommendations
       console.log('\n' + chalk.bold('Recommendations:'));
 
-      const recommendedShards = Math.min(
-        cpuCount,
-        Math.max(1, Math.ceil(testFiles.length / 20))
-      );
-
-      console.log(`  Recommended shards: ${chalk.yellow(recommendedShards)}`);
+      console.log(`  Recommended shards: ${chalk.yellow(recommendedShards)} ` +
+        chalk.dim(`(~${(recommendation.predictedWallTime / 1000).toFixed(1)}s with ${maxParallel} in parallel)`));
+      if (!recommendation.meetsTarget) {
+        console.log(chalk.yellow(`  ⚠ No shard count is predicted to finish within ${options.targetDuration}s`));
+      }
+      console.log(chalk.dim(`  Timing history covers ${withHistory}/${testFiles.length} test files`));
 
       if (testFiles.length < 10) {
         console.log(chalk.dim('  - Small test suite, sharding may not provide significant benefits'));
-      } else if (testFiles.length < 50) {
-        console.log(chalk.dim('  - Medium test suite, use 2-4 shards for best results'));
-      } else {
-        console.log(chalk.dim(`  - Large test suite, use ${recommendedShards} shards for optimal performance`));
+      }
+
+      // Predicted wall time for a few shard counts around the recommendation
+      const counts = [...new Set([1, 2, 4, 8, 16, cpuCount, recommendedShards])]
+        .filter(count => count <= recommendation.predictions.length)
+        .sort((a, b) => a - b);
+
+      console.log('\n' + chalk.bold('Predicted wall time:'));
+      for (const count of counts) {
+        const wallTime = recommendation.predictions[count - 1].wallTime;
+        const line = `  ${String(count).padStart(3)} shard(s): ${(wallTime / 1000).toFixed(1)}s`;
+        console.log(count === recommendedShards ? chalk.yellow(`${line}  ← recommended`) : line);
       }
 
       // Show largest files
@@ -219,16 +800,19 @@ program
         }
       }
 
-      // Distribution preview
-      console.log('\n' + chalk.bold(`Distribution with ${recommendedShards} shards:`));
+      // Distribution preview, per strategy
+      console.log('\n' + chalk.bold(`Distribution with ${previewShards} shards:`));
 
-      const testsPerShard = Math.ceil(testFiles.length / recommendedShards);
-      for (let i = 1; i <= recommendedShards; i++) {
-        const start = (i - 1) * testsPerShard;
-        const end = Math.min(i * testsPerShard, testFiles.length);
-        const count = end - start;
+      const best = Math.min(...distributions.map(distribution => distribution.imbalance));
+      for (const distribution of distributions) {
+        const imbalance = `imbalance ${distribution.imbalance.toFixed(2)}`;
+        console.log(`\n  ${chalk.bold(distribution.strategy)} ` +
+          (distribution.imbalance === best ? chalk.green(`(${imbalance}, most even)`) : chalk.dim(`(${imbalance})`)));
 
-        console.log(`  Shard ${i}: ${chalk.green(count + ' tests')}`);
+        for (const shard of distribution.shards) {
+          console.log(`    Shard ${shard.index}: ${chalk.green(shard.files + ' files')}, ` +
+            `${(shard.bytes / 1024).toFixed(1)} KB, ~${(shard.expectedDuration / 1000).toFixed(1)}s`);
+        }
       }
 
     } catch (error) {
@@ -236,7 +820,6 @@ program
       process.exit(1);
     }
   });
-
 program
   .command('clean')
   .description('Clean up shard artifacts and coverage directories')
@@ -246,6 +829,8 @@ program
     const dirsToClean = [
       'coverage-shards',
       'coverage-final',
+      'test-results',
+      'shard-logs',
       '.jest-shard-locks'
     ];
 
@@ -298,6 +883,27 @@ program
     console.log(chalk.gray('  # Limit parallel execution'));
     console.log('  $ jest-shard run --shards 8 --parallel 2\n');
 
+    console.log(chalk.gray('  # Balance shards by file size instead of timing history'));
+    console.log('  $ jest-shard run --shards 4 --strategy file-size\n');
+
+    console.log(chalk.gray('  # Work-stealing queue: 4 workers pull 2 files at a time'));
+    console.log('  $ jest-shard run --shards 4 --mode queue --batch-size 2\n');
+
+    console.log(chalk.gray('  # Retry failing files twice and keep known-flaky files out of the gate'));
+    console.log('  $ jest-shard run --retries 2 --quarantine quarantine.json\n');
+
+    console.log(chalk.gray('  # Readable parallel output: one block per shard, logs saved to shard-logs/'));
+    console.log('  $ jest-shard run --shards 4 --output buffered\n');
+
+    console.log(chalk.gray('  # Live progress table with per-shard counts and an ETA'));
+    console.log('  $ jest-shard run --shards 4 --dashboard\n');
+
+    console.log(chalk.gray('  # Pick the shard count that should finish within 5 minutes'));
+    console.log('  $ jest-shard run --target-duration 300\n');
+
+    console.log(chalk.gray('  # Pull request build: only tests affected by the branch'));
+    console.log('  $ jest-shard run --changed-since origin/main\n');
+
     console.log(chalk.bold('CI/CD Usage:'));
     console.log(chalk.gray('  # GitHub Actions matrix'));
     console.log('  $ jest-shard test --index ${{ matrix.shard }} --total ${{ matrix.total }}\n');
@@ -305,6 +911,10 @@ program
     console.log(chalk.gray('  # GitLab CI parallel'));
     console.log('  $ jest-shard test --index $CI_NODE_INDEX --total $CI_NODE_TOTAL\n');
 
+    console.log(chalk.gray('  # Plan once, then run exactly the planned files in each job'));
+    console.log('  $ jest-shard plan --shards 4 --out plan.json');
+    console.log('  $ jest-shard test --plan plan.json --index ${{ matrix.shard }}\n');
+
     console.log(chalk.bold('Coverage Management:'));
     console.log(chalk.gray('  # Merge coverage after tests'));
     console.log('  $ jest-shard merge\n');
@@ -312,10 +922,45 @@ program
     console.log(chalk.gray('  # Custom directories'));
     console.log('  $ jest-shard merge --source my-coverage --output final-coverage\n');
 
+    console.log(chalk.gray('  # Fail if a test file was skipped or ran twice across the matrix jobs'));
+    console.log('  $ jest-shard merge --verify plan.json\n');
+
+    console.log(chalk.gray('  # Only list partly covered files in the terminal, with stricter watermarks'));
+    console.log(`  $ jest-shard merge --formats text,html --reporter-options '{"text":{"skipFull":true}}' --watermarks '{"lines":[70,90]}'\n`);
+
+    console.log(chalk.gray('  # Merge in coverage from packages that only emit LCOV or Cobertura'));
+    console.log("  $ jest-shard merge --input 'packages/*/coverage/lcov.info' tools/coverage.xml\n");
+
+    console.log(chalk.gray('  # Merge shards that ran in a Docker container mounted at /app'));
+    console.log('  $ jest-shard merge --path-map /app=. --strip-prefix /home/runner/work/repo/repo\n');
+
+    console.log(chalk.gray("  # Merge a re-run's shards while files from an older run are still around"));
+    console.log('  $ jest-shard merge --run-id $GITHUB_RUN_ID\n');
+
+    console.log(chalk.gray('  # Enforce thresholds on the merged coverage'));
+    console.log(`  $ jest-shard merge --threshold '{"global":{"lines":80},"./src/api/":{"branches":90}}'\n`);
+
+    console.log(chalk.gray('  # Find the shards and test files that cover lines 40-60 of a file'));
+    console.log('  $ jest-shard run --attribution tests');
+    console.log('  $ jest-shard coverage who-covers src/api/users.ts --lines 40-60\n');
+
+    console.log(chalk.gray('  # Compare with the main branch coverage and post the result on the PR'));
+    console.log('  $ jest-shard coverage diff --base main-coverage.json --changed-since origin/main \\');
+    console.log('      --min-changed-lines 80 --format markdown --output coverage-comment.md\n');
+
+    console.log(chalk.gray('  # Combine shard test results into JUnit XML and JSON'));
+    console.log('  $ jest-shard report --output test-results\n');
+
+    console.log(chalk.gray('  # Fold shard timings into the smart strategy history'));
+    console.log('  $ jest-shard history merge --source coverage-shards\n');
+
     console.log(chalk.bold('Analysis:'));
     console.log(chalk.gray('  # Get recommendations'));
     console.log('  $ jest-shard analyze\n');
 
+    console.log(chalk.gray('  # Compare how evenly each strategy splits the suite into 8 shards, as JSON'));
+    console.log('  $ jest-shard analyze --shards 8 --json > balance.json\n');
+
     console.log(chalk.gray('  # Clean up artifacts'));
     console.log('  $ jest-shard clean\n');
 
@@ -0,0 +1,345 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import * as zlib from 'zlib';
+import { pipeline } from 'stream';
+import { promisify } from 'util';
+import { execFileSync } from 'child_process';
+import type { Config } from '@jest/types';
+import type { CoverageMapData } from 'istanbul-lib-coverage';
+import { CoverageInputFormat, detectCoverageFormat, parseCoverage } from './coverage-formats';
+import { ShardArtifactCheck, ShardCoverageArtifact, ShardInfo, ShardRunMetadata } from './types';
+
+export const COVERAGE_SCHEMA_VERSION = 1;
+
+const gunzip = promisify(zlib.gunzip);
+
+// Metadata precedes the coverage in every artifact; this much is plenty to find it
+const HEADER_LIMIT = 64 * 1024;
+
+export class ShardArtifactError extends Error {
+  constructor(public readonly check: ShardArtifactCheck) {
+    super(`Shard coverage files do not add up to one run:\n${formatShardArtifactCheck(check)}`);
+    this.name = 'ShardArtifactError';
+  }
+}
+
+/** A shard coverage file as read back for merging */
+export interface ShardCoverageFile {
+  path: string;
+  /** From the metadata, else from the file name */
+  index?: number;
+  /** Metadata of files written by the reporter; unset for bare coverage */
+  artifact?: Omit<ShardCoverageArtifact, 'coverage'>;
+  coverage?: CoverageMapData;
+  /** Why the file can't be used: unreadable, unsupported or a checksum mismatch */
+  error?: string;
+}
+
+// Shards of one CI run share these; re-running failed jobs keeps them, unlike attempt numbers
+const CI_RUN_ID_VARIABLES = [
+  'GITHUB_RUN_ID',
+  'CI_PIPELINE_ID',
+  'CIRCLE_WORKFLOW_ID',
+  'BUILDKITE_BUILD_ID',
+  'BUILD_BUILDID',
+  'BUILD_TAG'
+];
+
+/**
+ * The run the current shard belongs to: `JEST_SHARD_RUN_ID`, set by the
+ * coordinator or by hand, else the CI provider's pipeline id.
+ */
+export function resolveRunId(env: NodeJS.ProcessEnv = process.env): string | undefined {
+  if (env.JEST_SHARD_RUN_ID) {
+    return env.JEST_SHARD_RUN_ID;
+  }
+
+  const variable = CI_RUN_ID_VARIABLES.find(name => env[name]);
+  return variable ? env[variable] : undefined;
+}
+
+const gitCommits = new Map<string, string | undefined>();
+
+export function readGitCommit(cwd: string = process.cwd()): string | undefined {
+  if (!gitCommits.has(cwd)) {
+    try {
+      gitCommits.set(cwd, execFileSync('git', ['rev-parse', 'HEAD'], {
+        cwd,
+        encoding: 'utf8',
+        stdio: ['ignore', 'pipe', 'ignore']
+      }).trim() || undefined);
+    } catch {
+      gitCommits.set(cwd, undefined);
+    }
+  }
+  return gitCommits.get(cwd);
+}
+
+/**
+ * Fingerprint of the Jest options that decide which files are instrumented
+ * and how. Per-shard options (`--shard`, test paths) are left out, as is
+ * anything tied to where the project is checked out.
+ */
+export function hashJestConfig(config: Pick<Config.GlobalConfig, 'coverageProvider' | 'collectCoverageFrom'>): string {
+  return crypto
+    .createHash('sha256')
+    .update(JSON.stringify({
+      coverageProvider: config.coverageProvider || 'babel',
+      collectCoverageFrom: [...(config.collectCoverageFrom || [])].sort()
+    }))
+    .digest('hex')
+    .substring(0, 16);
+}
+
+export function shardRunMetadata(globalConfig: Config.GlobalConfig): ShardRunMetadata {
+  return {
+    runId: resolveRunId(),
+    gitCommit: readGitCommit(globalConfig.rootDir),
+    jestConfigHash: hashJestConfig(globalConfig)
+  };
+}
+
+export function checksumCoverage(coverage: CoverageMapData): string {
+  return crypto.createHash('sha256').update(JSON.stringify(coverage)).digest('hex');
+}
+
+export function createCoverageArtifact(
+  shard: ShardInfo,
+  coverage: CoverageMapData,
+  metadata: ShardRunMetadata = {}
+): ShardCoverageArtifact {
+  return {
+    schemaVersion: COVERAGE_SCHEMA_VERSION,
+    timestamp: new Date().toISOString(),
+    shard,
+    ...metadata,
+    checksum: checksumCoverage(coverage),
+    coverage
+  };
+}
+
+/** Named by content, so a file from another run never silently takes a shard's place */
+export function coverageArtifactFileName(artifact: ShardCoverageArtifact): string {
+  return `coverage-shard-${artifact.shard.index}-${artifact.checksum.substring(0, 12)}.json.gz`;
+}
+
+/** A coverage file's text, gunzipped when it ends in `.gz` */
+export async function readCoverageText(file: string): Promise<string> {
+  const content = await fs.promises.readFile(file);
+  return (file.endsWith('.gz') ? await gunzip(content) : content).toString('utf8');
+}
+
+/** Detects the format from the name without `.gz`, then the content */
+export function parseCoverageFile(file: string, content: string, format?: CoverageInputFormat): CoverageMapData {
+  const name = file.replace(/\.gz$/, '');
+  return parseCoverage(content, format || detectCoverageFormat(name, content));
+}
+
+/** Reporter artifacts carry a schema version, which bare coverage never has */
+function isCoverageArtifact(value: unknown): value is ShardCoverageArtifact {
+  return typeof value === 'object' && value !== null &&
+    typeof (value as { schemaVersion?: unknown }).schemaVersion === 'number';
+}
+
+function shardIndexFromName(file: string): number | undefined {
+  const match = /^coverage-shard-(\d+)\b/.exec(path.basename(file));
+  return match ? parseInt(match[1]) : undefined;
+}
+
+// Only as much of the file as it takes to reach the coverage
+async function readHead(file: string): Promise<string> {
+  const source = fs.createReadStream(file);
+  // pipeline() passes read errors on, so a broken file can't leave the loop waiting
+  const gunzipped = file.endsWith('.gz') ? pipeline(source, zlib.createGunzip(), () => {}) : undefined;
+  let head = '';
+
+  try {
+    for await (const chunk of gunzipped || source) {
+      head += chunk.toString();
+      if (head.includes('"coverage":') || head.length >= HEADER_LIMIT) {
+        break;
+      }
+    }
+  } finally {
+    gunzipped?.destroy();
+    source.destroy();
+  }
+
+  return head;
+}
+
+/**
+ * The metadata of a shard coverage file without reading its coverage, to
+ * check the shards against each other before merging any. Files without
+ * metadata come back with just the index from their name; checksums are
+ * verified when the coverage is read.
+ */
+export async function readShardArtifactHeader(file: string): Promise<ShardCoverageFile> {
+  const result: ShardCoverageFile = { path: file, index: shardIndexFromName(file) };
+
+  let head: string;
+  try {
+    head = await readHead(file);
+  } catch (error) {
+    return { ...result, error: `unreadable (${error instanceof Error ? error.message : error})` };
+  }
+
+  const end = head.indexOf('"coverage":');
+  if (!head.trimStart().startsWith('{') || end === -1) {
+    return result;
+  }
+
+  let artifact: Omit<ShardCoverageArtifact, 'coverage'>;
+  try {
+    artifact = JSON.parse(head.slice(0, end).replace(/,\s*$/, '') + '}');
+  } catch {
+    // Bare Istanbul coverage of a file that happens to be called "coverage"
+    return result;
+  }
+
+  if (typeof artifact.schemaVersion !== 'number') {
+    return result;
+  }
+  if (artifact.schemaVersion !== COVERAGE_SCHEMA_VERSION) {
+    return { ...result, artifact, error: `unsupported coverage schema version ${artifact.schemaVersion}` };
+  }
+
+  return { ...result, index: artifact.shard?.index, artifact };
+}
+
+/**
+ * Reads a shard coverage file: a reporter artifact, whose checksum is
+ * verified, or bare Istanbul, LCOV or Cobertura coverage.
+ */
+export async function readShardCoverageFile(file: string): Promise<ShardCoverageFile> {
+  const result: ShardCoverageFile = { path: file, index: shardIndexFromName(file) };
+
+  let parsed: unknown;
+  try {
+    parsed = parseCoverageFile(file, await readCoverageText(file));
+  } catch (error) {
+    return { ...result, error: `unreadable (${error instanceof Error ? error.message : error})` };
+  }
+
+  if (!isCoverageArtifact(parsed)) {
+    return { ...result, coverage: parsed as CoverageMapData };
+  }
+
+  const { coverage, ...artifact } = parsed;
+  result.index = artifact.shard?.index;
+  result.artifact = artifact;
+
+  if (artifact.schemaVersion !== COVERAGE_SCHEMA_VERSION) {
+    return { ...result, error: `unsupported coverage schema version ${artifact.schemaVersion}` };
+  }
+  if (checksumCoverage(coverage) !== artifact.checksum) {
+    return { ...result, error: 'checksum mismatch, the file is truncated or was modified' };
+  }
+
+  return { ...result, coverage };
+}
+
+function describeRun(runId?: string): string {
+  return runId ? `run ${runId}` : 'a run without an id';
+}
+
+/**
+ * Works out which shard files belong together. The reference run is the
+ * expected one, or that of the newest file; files from other runs, for
+ * another shard count, commit or Jest config, and older copies of a shard
+ * are rejected, and the run's indices without a file are listed as missing.
+ */
+export function checkShardArtifacts(
+  files: ShardCoverageFile[],
+  expected: { runId?: string; total?: number } = {}
+): ShardArtifactCheck {
+  const rejected: ShardArtifactCheck['rejected'] = [];
+  const verified: ShardCoverageFile[] = [];
+  const unverified: ShardCoverageFile[] = [];
+
+  for (const file of files) {
+    if (file.error) {
+      rejected.push({ path: file.path, reason: file.error });
+    } else if (file.artifact) {
+      verified.push(file);
+    } else {
+      unverified.push(file);
+    }
+  }
+
+  // Newest first: the reference run and, per index, the copy to keep
+  verified.sort((a, b) => b.artifact!.timestamp.localeCompare(a.artifact!.timestamp));
+
+  const reference = expected.runId !== undefined
+    ? verified.find(file => file.artifact!.runId === expected.runId)?.artifact
+    : verified[0]?.artifact;
+  const runId = expected.runId ?? reference?.runId;
+  const total = expected.total ?? reference?.shard.total;
+  const found = new Set<number>();
+
+  for (const file of verified) {
+    const artifact = file.artifact!;
+    let reason: string | undefined;
+
+    if (artifact.runId !== runId) {
+      reason = `from ${describeRun(artifact.runId)}, expected ${describeRun(runId)}`;
+    } else if (total !== undefined && artifact.shard.total !== total) {
+      reason = `from a ${artifact.shard.total}-shard run, expected ${total} shards`;
+    } else if (reference?.gitCommit && artifact.gitCommit && artifact.gitCommit !== reference.gitCommit) {
+      reason = `ran at commit ${artifact.gitCommit.substring(0, 12)}, expected ${reference.gitCommit.substring(0, 12)}`;
+    } else if (reference?.jestConfigHash && artifact.jestConfigHash && artifact.jestConfigHash !== reference.jestConfigHash) {
+      reason = 'ran with a different Jest coverage config';
+    } else if (found.has(artifact.shard.index)) {
+      reason = `older copy of shard ${artifact.shard.index}`;
+    }
+
+    if (reason) {
+      rejected.push({ path: file.path, reason });
+    } else {
+      found.add(artifact.shard.index);
+    }
+  }
+
+  for (const file of unverified) {
+    if (file.index !== undefined) {
+      found.add(file.index);
+    }
+  }
+
+  const missing: number[] = [];
+  for (let index = 1; index <= (total || 0); index++) {
+    if (!found.has(index)) {
+      missing.push(index);
+    }
+  }
+
+  return {
+    runId,
+    total,
+    found: [...found].sort((a, b) => a - b),
+    missing,
+    rejected: rejected.sort((a, b) => a.path.localeCompare(b.path)),
+    unverified: unverified.map(file => file.path).sort()
+  };
+}
+
+export function isShardArtifactCheckClean(check: ShardArtifactCheck): boolean {
+  return check.missing.length === 0 && check.rejected.length === 0;
+}
+
+export function formatShardArtifactCheck(check: ShardArtifactCheck): string {
+  const shards = check.total === undefined ? `${check.found.length} shard(s)` : `${check.found.length}/${check.total} shard(s)`;
+  const lines = [`  Found ${shards} of ${describeRun(check.runId)}`];
+
+  if (check.missing.length > 0) {
+    lines.push(`  - Missing shard(s): ${check.missing.join(', ')}`);
+  }
+
+  if (check.rejected.length > 0) {
+    lines.push(`  ✗ Left out (${check.rejected.length}):`);
+    lines.push(...check.rejected.map(file => `      ${file.path}: ${file.reason}`));
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,195 @@
+import * as path from 'path';
+import { glob } from 'glob';
+import { CoverageMapData, FileCoverageData, createCoverageMap, createFileCoverage } from 'istanbul-lib-coverage';
+import { createSourceMapStore } from 'istanbul-lib-source-maps';
+import { readCoverageText } from './coverage-artifacts';
+import { formatLineRanges } from './coverage-diff';
+import { normalizeCoveragePath } from './coverage-paths';
+import { toProjectPath } from './paths';
+import {
+  CoverageAttribution,
+  CoverageAttributionLevel,
+  ShardAttributionArtifact,
+  ShardInfo,
+  SourceFileAttribution
+} from './types';
+
+export const ATTRIBUTION_SCHEMA_VERSION = 1;
+
+export function isCoverageAttributionLevel(value: string | undefined): value is CoverageAttributionLevel {
+  return value === 'shards' || value === 'tests';
+}
+
+/** Lines with at least one hit */
+export function coveredLines(data: FileCoverageData): number[] {
+  const hits = createFileCoverage(data).getLineCoverage();
+  return Object.keys(hits)
+    .map(Number)
+    .filter(line => hits[line] > 0)
+    .sort((a, b) => a - b);
+}
+
+/**
+ * Keeps the lines each test file hit while a shard runs. Only line numbers
+ * are kept, not every test file's coverage.
+ */
+export class TestAttributionRecorder {
+  // Test file -> source file -> lines
+  private tests = new Map<string, Map<string, number[]>>();
+
+  constructor(private readonly projectRoot: string = process.cwd()) {}
+
+  /**
+   * A test file's coverage is of the transformed code; like the shard's, it
+   * is mapped back to the original sources before its lines are kept.
+   */
+  async record(testPath: string, coverage: CoverageMapData): Promise<void> {
+    const sources = new Map<string, number[]>();
+    const mapped = await createSourceMapStore().transformCoverage(createCoverageMap(coverage));
+
+    for (const file of mapped.files()) {
+      const lines = coveredLines(mapped.fileCoverageFor(file).data);
+      if (lines.length > 0) {
+        sources.set(normalizeCoveragePath(file, this.projectRoot), lines);
+      }
+    }
+
+    this.tests.set(toProjectPath(testPath, this.projectRoot), sources);
+  }
+
+  /** The test files that hit a source file, with their lines */
+  testsFor(source: string): Record<string, number[]> {
+    const tests: Record<string, number[]> = {};
+    for (const [testPath, sources] of this.tests) {
+      const lines = sources.get(source);
+      if (lines) {
+        tests[testPath] = lines;
+      }
+    }
+    return tests;
+  }
+}
+
+/**
+ * Attribution for one shard from its project-relative coverage: the lines
+ * the shard hit per source file and, given a recorder, which test files hit
+ * them.
+ */
+export function createAttributionArtifact(
+  shard: ShardInfo,
+  coverage: CoverageMapData,
+  options: { tests?: TestAttributionRecorder; runId?: string } = {}
+): ShardAttributionArtifact {
+  const files: Record<string, SourceFileAttribution> = {};
+
+  for (const [source, data] of Object.entries(coverage)) {
+    const lines = coveredLines(data as FileCoverageData);
+    if (lines.length > 0) {
+      files[source] = options.tests ? { lines, tests: options.tests.testsFor(source) } : { lines };
+    }
+  }
+
+  return {
+    schemaVersion: ATTRIBUTION_SCHEMA_VERSION,
+    timestamp: new Date().toISOString(),
+    shard,
+    runId: options.runId,
+    level: options.tests ? 'tests' : 'shards',
+    files
+  };
+}
+
+export async function readAttributionArtifacts(dir: string): Promise<ShardAttributionArtifact[]> {
+  const artifacts: ShardAttributionArtifact[] = [];
+
+  for (const file of (await glob(path.join(dir, 'attribution-shard-*.json.gz'))).sort()) {
+    try {
+      const artifact: ShardAttributionArtifact = JSON.parse(await readCoverageText(file));
+      if (artifact.schemaVersion !== ATTRIBUTION_SCHEMA_VERSION) {
+        console.warn(`Skipping ${file}: unsupported attribution schema version ${artifact.schemaVersion}`);
+        continue;
+      }
+      artifacts.push(artifact);
+    } catch (error) {
+      console.warn(`Error reading ${file}:`, error);
+    }
+  }
+
+  return artifacts;
+}
+
+/** `10-20,25` as `[10, 11, ..., 20, 25]` */
+export function parseLineRanges(ranges: string): number[] {
+  const lines = new Set<number>();
+
+  for (const range of ranges.split(',')) {
+    const match = /^\s*(\d+)(?:\s*-\s*(\d+))?\s*$/.exec(range);
+    if (!match) {
+      throw new Error(`Invalid line range "${range.trim()}"`);
+    }
+    const start = parseInt(match[1]);
+    const end = match[2] === undefined ? start : parseInt(match[2]);
+    for (let line = Math.min(start, end); line <= Math.max(start, end); line++) {
+      lines.add(line);
+    }
+  }
+
+  return [...lines].sort((a, b) => a - b);
+}
+
+/**
+ * Which shards, and test files where recorded, hit a source file or some of
+ * its lines. Attribution from other runs than `runId` (default: the newest
+ * artifact's) is ignored.
+ */
+export function whoCovers(
+  artifacts: ShardAttributionArtifact[],
+  file: string,
+  options: { lines?: number[]; runId?: string } = {}
+): CoverageAttribution {
+  const newest = [...artifacts].sort((a, b) => b.timestamp.localeCompare(a.timestamp))[0];
+  const runId = options.runId ?? newest?.runId;
+  const wanted = options.lines && new Set(options.lines);
+  const pick = (lines: number[]) => (wanted ? lines.filter(line => wanted.has(line)) : lines);
+  const shards: CoverageAttribution['shards'] = [];
+
+  for (const artifact of artifacts) {
+    const attribution = artifact.files[file];
+    if (artifact.runId !== runId || !attribution) {
+      continue;
+    }
+
+    const lines = pick(attribution.lines);
+    if (lines.length === 0) {
+      continue;
+    }
+
+    const tests = attribution.tests && Object.entries(attribution.tests)
+      .map(([testPath, testLines]) => ({ path: testPath, lines: pick(testLines) }))
+      .filter(test => test.lines.length > 0)
+      .sort((a, b) => b.lines.length - a.lines.length || a.path.localeCompare(b.path));
+
+    shards.push({ index: artifact.shard.index, lines, tests });
+  }
+
+  return { path: file, shards: shards.sort((a, b) => a.index - b.index) };
+}
+
+export function formatWhoCovers(attribution: CoverageAttribution, options: { lines?: number[] } = {}): string {
+  const target = options.lines ? `${attribution.path}:${formatLineRanges(options.lines)}` : attribution.path;
+
+  if (attribution.shards.length === 0) {
+    return `${target}: not hit by any shard`;
+  }
+
+  const lines = [`${target}: hit by ${attribution.shards.length} shard(s)`];
+
+  for (const shard of attribution.shards) {
+    lines.push(`  Shard ${shard.index}: lines ${formatLineRanges(shard.lines)}`);
+    if (shard.tests) {
+      lines.push(...shard.tests.map(test => `    ${test.path}: ${formatLineRanges(test.lines)}`));
+    }
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,298 @@
+import * as fs from 'fs';
+import { CoverageMap, CoverageSummary, FileCoverage, createCoverageSummary } from 'istanbul-lib-coverage';
+import { IstanbulCoverageMerger } from './coverage-merger';
+import { toProjectPath } from './paths';
+import {
+  ChangedLinesCoverage,
+  CoverageDiff,
+  CoverageMetric,
+  CoverageMetricDeltas,
+  CoveragePathOptions,
+  FileCoverageDiff
+} from './types';
+
+const METRICS: CoverageMetric[] = ['statements', 'branches', 'functions', 'lines'];
+
+/**
+ * Loads a merged `coverage-final.json`, keyed by this checkout's paths even
+ * when it was produced elsewhere (e.g. a baseline from the main branch).
+ */
+export function loadCoverageReport(
+  file: string,
+  projectRoot: string = process.cwd(),
+  paths: CoveragePathOptions = {}
+): CoverageMap {
+  const coverage = JSON.parse(fs.readFileSync(file, 'utf8'));
+  return new IstanbulCoverageMerger({ ...paths, projectRoot }).merge([{ path: file, coverage }]);
+}
+
+/**
+ * Lines added by a unified diff (`git diff` output), per project-relative
+ * file. Deleted files are left out.
+ */
+export function parseUnifiedDiff(diff: string): Map<string, Set<number>> {
+  const changed = new Map<string, Set<number>>();
+  let lines: Set<number> | undefined;
+  let lineNumber = 0;
+
+  for (const line of diff.split('\n')) {
+    if (line.startsWith('+++ ')) {
+      const target = line.slice(4).trim().replace(/\t.*$/, '');
+      if (target === '/dev/null') {
+        lines = undefined;
+      } else {
+        const file = target.replace(/^b\//, '');
+        lines = changed.get(file) || new Set();
+        changed.set(file, lines);
+      }
+      continue;
+    }
+
+    const hunk = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/.exec(line);
+    if (hunk) {
+      lineNumber = parseInt(hunk[1]);
+      continue;
+    }
+
+    if (!lines || line.startsWith('--- ')) {
+      continue;
+    }
+
+    if (line.startsWith('+')) {
+      lines.add(lineNumber++);
+    } else if (line.startsWith(' ')) {
+      lineNumber++;
+    }
+  }
+
+  return changed;
+}
+
+function percentages(summary: CoverageSummary): Record<CoverageMetric, number> {
+  const data = summary.toJSON();
+  return Object.fromEntries(METRICS.map(metric => [
+    metric,
+    data[metric].total > 0 ? data[metric].pct : 100
+  ])) as Record<CoverageMetric, number>;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function deltas(base?: CoverageSummary, head?: CoverageSummary): CoverageMetricDeltas {
+  const before = base && percentages(base);
+  const after = head && percentages(head);
+
+  return Object.fromEntries(METRICS.map(metric => [metric, {
+    base: before?.[metric],
+    head: after?.[metric],
+    delta: before && after ? round(after[metric] - before[metric]) : undefined
+  }])) as CoverageMetricDeltas;
+}
+
+function uncoveredLines(fileCoverage?: FileCoverage): Set<number> {
+  return new Set((fileCoverage?.getUncoveredLines() || []).map(Number));
+}
+
+function changedLinesCoverage(
+  head: CoverageMap,
+  changedLines: Map<string, Set<number>>,
+  projectRoot: string
+): ChangedLinesCoverage {
+  const result: ChangedLinesCoverage = { total: 0, covered: 0, pct: 100, uncovered: [] };
+
+  for (const file of head.files()) {
+    const lines = changedLines.get(toProjectPath(file, projectRoot));
+    if (!lines) {
+      continue;
+    }
+
+    const hits = head.fileCoverageFor(file).getLineCoverage();
+    const missed: number[] = [];
+
+    for (const line of [...lines].sort((a, b) => a - b)) {
+      // Changed lines without statements (comments, types, braces) don't count
+      if (hits[line] === undefined) {
+        continue;
+      }
+      result.total++;
+      if (hits[line] > 0) {
+        result.covered++;
+      } else {
+        missed.push(line);
+      }
+    }
+
+    if (missed.length > 0) {
+      result.uncovered.push({ path: toProjectPath(file, projectRoot), lines: missed });
+    }
+  }
+
+  result.pct = result.total > 0 ? round(result.covered / result.total * 100) : 100;
+  result.uncovered.sort((a, b) => a.path.localeCompare(b.path));
+  return result;
+}
+
+/**
+ * Compares two merged coverage maps: total and per-file percentage deltas,
+ * lines that became uncovered and, given the lines a change touched, how
+ * many of them the head run covered.
+ */
+export function diffCoverage(
+  base: CoverageMap,
+  head: CoverageMap,
+  options: { projectRoot?: string; changedLines?: Map<string, Set<number>> } = {}
+): CoverageDiff {
+  const projectRoot = options.projectRoot || process.cwd();
+  const baseFiles = new Set(base.files());
+  const headFiles = new Set(head.files());
+  const files: FileCoverageDiff[] = [];
+
+  for (const file of new Set([...baseFiles, ...headFiles])) {
+    const before = baseFiles.has(file) ? base.fileCoverageFor(file) : undefined;
+    const after = headFiles.has(file) ? head.fileCoverageFor(file) : undefined;
+
+    const metrics = deltas(before?.toSummary(), after?.toSummary());
+    const previouslyUncovered = uncoveredLines(before);
+    const newlyUncoveredLines = [...uncoveredLines(after)]
+      .filter(line => !previouslyUncovered.has(line))
+      .sort((a, b) => a - b);
+
+    const status = !before ? 'added' : !after ? 'removed' : 'changed';
+    const changed = METRICS.some(metric => metrics[metric].delta !== 0) || newlyUncoveredLines.length > 0;
+
+    if (status !== 'changed' || changed) {
+      files.push({ path: toProjectPath(file, projectRoot), status, metrics, newlyUncoveredLines });
+    }
+  }
+
+  const baseTotal = createCoverageSummary();
+  base.files().forEach(file => baseTotal.merge(base.fileCoverageFor(file).toSummary()));
+  const headTotal = createCoverageSummary();
+  head.files().forEach(file => headTotal.merge(head.fileCoverageFor(file).toSummary()));
+
+  return {
+    total: deltas(baseTotal, headTotal),
+    files: files.sort((a, b) => a.path.localeCompare(b.path)),
+    changedLines: options.changedLines ? changedLinesCoverage(head, options.changedLines, projectRoot) : undefined
+  };
+}
+
+/** `[1, 2, 3, 7, 9, 10]` as `1-3, 7, 9-10` */
+export function formatLineRanges(lines: number[]): string {
+  const ranges: string[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const start = lines[i];
+    while (i + 1 < lines.length && lines[i + 1] === lines[i] + 1) {
+      i++;
+    }
+    ranges.push(start === lines[i] ? `${start}` : `${start}-${lines[i]}`);
+  }
+
+  return ranges.join(', ');
+}
+
+function formatPct(value?: number): string {
+  return value === undefined ? '-' : `${value.toFixed(2)}%`;
+}
+
+function formatDelta(value?: number): string {
+  if (value === undefined) {
+    return '-';
+  }
+  return value > 0 ? `+${value.toFixed(2)}` : value.toFixed(2);
+}
+
+function formatTable(header: string[], rows: string[][]): string {
+  const widths = header.map((title, column) =>
+    Math.max(title.length, ...rows.map(row => row[column].length))
+  );
+  const formatRow = (row: string[]) => row.map((cell, column) => cell.padEnd(widths[column])).join(' | ');
+
+  return [
+    formatRow(header),
+    widths.map(width => '-'.repeat(width)).join('-|-'),
+    ...rows.map(formatRow)
+  ].join('\n');
+}
+
+export function formatCoverageDiff(diff: CoverageDiff): string {
+  const sections = [
+    formatTable(['Metric', 'Base', 'Head', 'Delta'], METRICS.map(metric => [
+      metric,
+      formatPct(diff.total[metric].base),
+      formatPct(diff.total[metric].head),
+      formatDelta(diff.total[metric].delta)
+    ]))
+  ];
+
+  if (diff.files.length > 0) {
+    sections.push(formatTable(['File', 'Status', 'Lines', 'Delta', 'Newly uncovered lines'], diff.files.map(file => [
+      file.path,
+      file.status,
+      formatPct(file.metrics.lines.head ?? file.metrics.lines.base),
+      formatDelta(file.metrics.lines.delta),
+      formatLineRanges(file.newlyUncoveredLines)
+    ])));
+  } else {
+    sections.push('No file coverage changed');
+  }
+
+  if (diff.changedLines) {
+    const { covered, total, pct, uncovered } = diff.changedLines;
+    sections.push([
+      `Changed lines: ${covered}/${total} covered (${pct.toFixed(2)}%)`,
+      ...uncovered.map(file => `  ${file.path}: ${formatLineRanges(file.lines)}`)
+    ].join('\n'));
+  }
+
+  return sections.join('\n\n');
+}
+
+/**
+ * Markdown for a pull request comment. With `minChangedLines`, the changed
+ * lines verdict is marked as passing or failing.
+ */
+export function formatCoverageDiffMarkdown(diff: CoverageDiff, options: { minChangedLines?: number } = {}): string {
+  const lines = [
+    '## Coverage report',
+    '',
+    '| Metric | Base | Head | Δ |',
+    '| --- | ---: | ---: | ---: |',
+    ...METRICS.map(metric => `| ${metric} | ${formatPct(diff.total[metric].base)} | ${formatPct(diff.total[metric].head)} | ${formatDelta(diff.total[metric].delta)} |`)
+  ];
+
+  if (diff.changedLines) {
+    const { covered, total, pct, uncovered } = diff.changedLines;
+    const verdict = options.minChangedLines === undefined ? '' : pct >= options.minChangedLines ? '✅ ' : '❌ ';
+    const required = options.minChangedLines === undefined ? '' : ` (minimum ${options.minChangedLines}%)`;
+
+    lines.push('', `${verdict}**Changed lines:** ${covered}/${total} covered, ${pct.toFixed(2)}%${required}`);
+
+    if (uncovered.length > 0) {
+      lines.push('', '<details><summary>Uncovered changed lines</summary>', '');
+      lines.push(...uncovered.map(file => `- \`${file.path}\`: ${formatLineRanges(file.lines)}`));
+      lines.push('', '</details>');
+    }
+  }
+
+  if (diff.files.length > 0) {
+    lines.push(
+      '',
+      `<details><summary>${diff.files.length} file(s) with changed coverage</summary>`,
+      '',
+      '| File | Lines | Δ | Newly uncovered lines |',
+      '| --- | ---: | ---: | --- |',
+      ...diff.files.map(file => {
+        const name = file.status === 'changed' ? `\`${file.path}\`` : `\`${file.path}\` (${file.status})`;
+        return `| ${name} | ${formatPct(file.metrics.lines.head ?? file.metrics.lines.base)} | ${formatDelta(file.metrics.lines.delta)} | ${formatLineRanges(file.newlyUncoveredLines)} |`;
+      }),
+      '',
+      '</details>'
+    );
+  }
+
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,252 @@
+import * as path from 'path';
+import { CoverageMapData, FileCoverageData, Range } from 'istanbul-lib-coverage';
+
+export const COVERAGE_INPUT_FORMATS = ['istanbul', 'lcov', 'cobertura'] as const;
+
+export type CoverageInputFormat = typeof COVERAGE_INPUT_FORMATS[number];
+
+export function isCoverageInputFormat(value: string): value is CoverageInputFormat {
+  return (COVERAGE_INPUT_FORMATS as readonly string[]).includes(value);
+}
+
+/**
+ * Guesses a coverage file's format from its extension, then its content.
+ */
+export function detectCoverageFormat(file: string, content: string): CoverageInputFormat {
+  switch (path.extname(file).toLowerCase()) {
+    case '.json':
+      return 'istanbul';
+    case '.info':
+    case '.lcov':
+      return 'lcov';
+    case '.xml':
+      return 'cobertura';
+  }
+
+  const start = content.trimStart();
+  if (start.startsWith('{')) {
+    return 'istanbul';
+  }
+  if (start.startsWith('<')) {
+    return 'cobertura';
+  }
+  if (/^(TN|SF):/m.test(start)) {
+    return 'lcov';
+  }
+
+  throw new Error(`Cannot tell the coverage format of ${file}; pass it explicitly`);
+}
+
+/** Parses coverage in any supported format into Istanbul coverage data */
+export function parseCoverage(content: string, format: CoverageInputFormat): CoverageMapData {
+  switch (format) {
+    case 'istanbul':
+      return JSON.parse(content);
+    case 'lcov':
+      return parseLcov(content);
+    case 'cobertura':
+      return parseCobertura(content);
+  }
+}
+
+// LCOV and Cobertura only know lines, so every location spans a whole line
+function lineRange(line: number): Range {
+  return { start: { line, column: 0 }, end: { line, column: Number.MAX_SAFE_INTEGER } };
+}
+
+class FileCoverageBuilder {
+  private data: FileCoverageData;
+
+  constructor(file: string) {
+    this.data = { path: file, statementMap: {}, fnMap: {}, branchMap: {}, s: {}, f: {}, b: {} };
+  }
+
+  line(line: number, hits: number): void {
+    const id = String(Object.keys(this.data.s).length);
+    this.data.statementMap[id] = lineRange(line);
+    this.data.s[id] = hits;
+  }
+
+  fn(name: string, line: number, hits: number): void {
+    const id = String(Object.keys(this.data.f).length);
+    this.data.fnMap[id] = { name, decl: lineRange(line), loc: lineRange(line), line };
+    this.data.f[id] = hits;
+  }
+
+  branch(line: number, hits: number[]): void {
+    const id = String(Object.keys(this.data.b).length);
+    this.data.branchMap[id] = {
+      loc: lineRange(line),
+      type: 'branch',
+      locations: hits.map(() => lineRange(line)),
+      line
+    } as FileCoverageData['branchMap'][string];
+    this.data.b[id] = hits;
+  }
+
+  build(): FileCoverageData {
+    return this.data;
+  }
+}
+
+/**
+ * Parses an LCOV tracefile (`lcov.info`). Source paths are kept as
+ * recorded; the merger places them in the project.
+ */
+export function parseLcov(content: string): CoverageMapData {
+  const coverage: CoverageMapData = {};
+  let file: string | undefined;
+  let lines = new Map<number, number>();
+  let functions = new Map<string, { line: number; hits: number }>();
+  let branches = new Map<string, { line: number; hits: number[] }>();
+
+  const endRecord = () => {
+    if (file) {
+      const builder = new FileCoverageBuilder(file);
+      [...lines.entries()].sort(([a], [b]) => a - b).forEach(([line, hits]) => builder.line(line, hits));
+      functions.forEach(({ line, hits }, name) => builder.fn(name, line, hits));
+      branches.forEach(({ line, hits }) => builder.branch(line, hits));
+      coverage[file] = builder.build();
+    }
+    file = undefined;
+    lines = new Map();
+    functions = new Map();
+    branches = new Map();
+  };
+
+  for (const raw of content.split(/\r?\n/)) {
+    const line = raw.trim();
+    const separator = line.indexOf(':');
+    const key = separator === -1 ? line : line.slice(0, separator);
+    const fields = separator === -1 ? [] : line.slice(separator + 1).split(',');
+
+    switch (key) {
+      case 'SF':
+        file = line.slice(separator + 1);
+        break;
+      case 'FN': {
+        // FN:<line>,<name>; names may contain commas
+        const name = fields.slice(1).join(',');
+        functions.set(name, { line: parseInt(fields[0]), hits: functions.get(name)?.hits || 0 });
+        break;
+      }
+      case 'FNDA': {
+        const name = fields.slice(1).join(',');
+        const fn = functions.get(name) || { line: 0, hits: 0 };
+        functions.set(name, { ...fn, hits: fn.hits + parseInt(fields[0]) });
+        break;
+      }
+      case 'DA':
+        lines.set(parseInt(fields[0]), (lines.get(parseInt(fields[0])) || 0) + parseInt(fields[1]));
+        break;
+      case 'BRDA': {
+        // BRDA:<line>,<block>,<branch>,<taken>; "-" means the block never ran
+        const id = `${fields[0]}:${fields[1]}`;
+        const branch = branches.get(id) || { line: parseInt(fields[0]), hits: [] };
+        branch.hits[parseInt(fields[2])] = fields[3] === '-' ? 0 : parseInt(fields[3]);
+        branches.set(id, branch);
+        break;
+      }
+      case 'end_of_record':
+        endRecord();
+        break;
+    }
+  }
+
+  endRecord();
+
+  // Sparse branch numbers would leave holes
+  for (const data of Object.values(coverage) as FileCoverageData[]) {
+    for (const id of Object.keys(data.b)) {
+      data.b[id] = Array.from(data.b[id], hits => hits || 0);
+    }
+  }
+
+  return coverage;
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function attributes(tag: string): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const match of tag.matchAll(/([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    result[match[1]] = decodeEntities(match[2] ?? match[3]);
+  }
+  return result;
+}
+
+/**
+ * Parses a Cobertura XML report. Class file names are resolved against the
+ * first `<source>`; line hits come from the class-level `<lines>`, methods
+ * count as hit when their first line was, and `condition-coverage` turns
+ * into one branch with a location per condition.
+ */
+export function parseCobertura(content: string): CoverageMapData {
+  const builders = new Map<string, FileCoverageBuilder>();
+  const tags = /<(\/?)(source|class|method|line)\b([^>]*?)\/?>/g;
+  let source: string | undefined;
+  let builder: FileCoverageBuilder | undefined;
+  let method: { name: string; line?: number; hits: number } | undefined;
+  let match: RegExpExecArray | null;
+
+  while ((match = tags.exec(content)) !== null) {
+    const [tag, closing, name, attrs] = match;
+
+    if (name === 'source' && !closing && source === undefined) {
+      const end = content.indexOf('</source>', tags.lastIndex);
+      source = decodeEntities(content.slice(tags.lastIndex, end).trim());
+      continue;
+    }
+
+    if (name === 'class') {
+      if (closing) {
+        builder = undefined;
+      } else {
+        const filename = attributes(attrs).filename;
+        const file = source && !path.isAbsolute(filename) ? path.posix.join(source.replace(/\\/g, '/'), filename) : filename;
+        builder = builders.get(file) || new FileCoverageBuilder(file);
+        builders.set(file, builder);
+      }
+    } else if (name === 'method' && builder) {
+      if (closing) {
+        if (method && method.line !== undefined) {
+          builder.fn(method.name, method.line, method.hits);
+        }
+        method = undefined;
+      } else if (!tag.endsWith('/>')) {
+        method = { name: attributes(attrs).name, hits: 0 };
+      }
+    } else if (name === 'line' && !closing && builder) {
+      const line = attributes(attrs);
+      const number = parseInt(line.number);
+      const hits = parseInt(line.hits) || 0;
+
+      if (method) {
+        // Method lines repeat the class lines; only the first places the method
+        if (method.line === undefined) {
+          method.line = number;
+          method.hits = hits;
+        }
+        continue;
+      }
+
+      builder.line(number, hits);
+
+      const conditions = /\((\d+)\/(\d+)\)/.exec(line['condition-coverage'] || '');
+      if (line.branch === 'true' && conditions) {
+        const covered = parseInt(conditions[1]);
+        const total = parseInt(conditions[2]);
+        builder.branch(number, Array.from({ length: total }, (_, i) => (i < covered ? 1 : 0)));
+      }
+    }
+  }
+
+  return Object.fromEntries([...builders.entries()].map(([file, fileBuilder]) => [file, fileBuilder.build()]));
+}
@@ -1,18 +1,81 @@
 import * as fs from 'fs';
 import * as path from 'path';
+import * as zlib from 'zlib';
+import { once } from 'events';
+import { promisify } from 'util';
 import { glob } from 'glob';
-import { CoverageMerger, CoverageFile, MergeOptions } from './types';
+import {
+  CoverageMerger,
+  CoverageFile,
+  CoveragePathOptions,
+  CoverageReporterSpec,
+  MergeOptions,
+  ReportOptions,
+  ShardArtifactCheck,
+  ShardInfo,
+  ShardRunMetadata
+} from './types';
+import { TestAttributionRecorder, createAttributionArtifact } from './coverage-attribution';
 import { createCoverageMap, CoverageMap } from 'istanbul-lib-coverage';
-import { createContext } from 'istanbul-lib-report';
+import { createContext, getDefaultWatermarks } from 'istanbul-lib-report';
 import reports from 'istanbul-reports';
+import { CoverageThresholdError, evaluateCoverageThresholds } from './coverage-threshold';
+import { addUntestedFiles } from './untested-files';
+import { rebaseReportPaths, toLocalCoverage, toProjectCoverage } from './coverage-paths';
+import {
+  ShardArtifactError,
+  ShardCoverageFile,
+  checkShardArtifacts,
+  coverageArtifactFileName,
+  createCoverageArtifact,
+  formatShardArtifactCheck,
+  isShardArtifactCheckClean,
+  parseCoverageFile,
+  readCoverageText,
+  readShardArtifactHeader,
+  readShardCoverageFile
+} from './coverage-artifacts';
+
+const gzip = promisify(zlib.gzip);
+
+function formatSize(bytes: number): string {
+  return bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${(bytes / 1024).toFixed(1)} KB`;
+}
+
+/**
+ * Writes `coverage-final.json` one source file at a time instead of
+ * serializing the whole map into a single string.
+ */
+async function writeCoverageJson(file: string, coverageMap: CoverageMap): Promise<void> {
+  const stream = fs.createWriteStream(file);
+  const write = async (chunk: string) => {
+    if (!stream.write(chunk)) {
+      await once(stream, 'drain');
+    }
+  };
+
+  try {
+    await write('{');
+    for (const [i, source] of coverageMap.files().entries()) {
+      await write(`${i > 0 ? ',' : ''}\n${JSON.stringify(source)}:${JSON.stringify(coverageMap.fileCoverageFor(source).toJSON())}`);
+    }
+    await write('\n}\n');
+  } finally {
+    stream.end();
+  }
+  await once(stream, 'finish');
+}
 
 export class IstanbulCoverageMerger implements CoverageMerger {
+  constructor(private readonly paths: CoveragePathOptions & { projectRoot?: string } = {}) {}
+
   merge(coverageFiles: CoverageFile[]): CoverageMap {
     const coverageMap = createCoverageMap({});
 
     for (const file of coverageFiles) {
       try {
-        coverageMap.merge(file.coverage);
+        // Shards may come from checkouts at other paths; key everything by this checkout's files
+        coverageMap.merge(toLocalCoverage(file.coverage, this.paths.projectRoot, this.paths));
       } catch (error) {
         console.warn(`Error merging coverage for ${file.path}:`, error);
       }
@@ -21,30 +84,34 @@ export class IstanbulCoverageMerger implements CoverageMerger {
     return coverageMap;
   }
 
-  generateReports(coverageMap: CoverageMap, outputDir: string, formats: string[]): void {
+  generateReports(
+    coverageMap: CoverageMap,
+    outputDir: string,
+    formats: CoverageReporterSpec[],
+    options: ReportOptions = {}
+  ): void {
     const context = createContext({
       dir: outputDir,
       defaultSummarizer: 'nested',
       coverageMap,
-      watermarks: {
-        statements: [50, 80],
-        functions: [50, 80],
-        branches: [50, 80],
-        lines: [50, 80]
-      }
+      watermarks: { ...getDefaultWatermarks(), ...options.watermarks }
     });
 
     for (const format of formats) {
+      const [name, formatOptions] = Array.isArray(format) ? format : [format, {}];
+
       try {
-        const report = reports.create(format as any, {
-          projectRoot: process.cwd(),
-          skipEmpty: false,
-          skipFull: false
+        const report = reports.create(name as any, {
+          projectRoot: this.paths.projectRoot || process.cwd(),
+          skipEmpty: options.skipEmpty ?? false,
+          skipFull: options.skipFull ?? false,
+          ...formatOptions,
+          ...options.reporterOptions?.[name]
         });
 
         report.execute(context);
       } catch (error) {
-        console.warn(`Error generating ${format} report:`, error);
+        console.warn(`Error generating ${name} report:`, error);
       }
     }
   }
@@ -53,67 +120,207 @@ export class IstanbulCoverageMerger implements CoverageMerger {
 export class CoverageCollector {
   private shardedCoverageDir: string;
   private finalCoverageDir: string;
+  private projectRoot: string;
   private merger: CoverageMerger;
+  private verbose: boolean;
 
   constructor(options: MergeOptions = {}) {
     this.shardedCoverageDir = options.shardedCoverageDir || 'coverage-shards';
+    this.verbose = options.verbose || false;
     this.finalCoverageDir = options.finalCoverageDir || 'coverage-final';
-    this.merger = new IstanbulCoverageMerger();
+    this.projectRoot = options.rootDir || process.cwd();
+    this.merger = new IstanbulCoverageMerger({
+      projectRoot: this.projectRoot,
+      stripPrefix: options.stripPrefix,
+      pathMap: options.pathMap
+    });
+  }
+
+  async collectShardCoverage(shard: ShardInfo, coverageData: any, metadata: ShardRunMetadata = {}): Promise<void> {
+    this.ensureDirectory(this.shardedCoverageDir);
+
+    const startTime = Date.now();
+    const artifact = createCoverageArtifact(shard, toProjectCoverage(coverageData, this.projectRoot), metadata);
+    const fileName = coverageArtifactFileName(artifact);
+    const content = await gzip(JSON.stringify(artifact));
+
+    await fs.promises.writeFile(path.join(this.shardedCoverageDir, fileName), content);
+
+    if (this.verbose) {
+      console.log(`Wrote ${fileName}: ${Object.keys(artifact.coverage).length} file(s), ` +
+        `${formatSize(content.length)} in ${Date.now() - startTime}ms`);
+    }
+
+    // This shard's earlier files, from a previous run or an older layout
+    for (const file of await fs.promises.readdir(this.shardedCoverageDir)) {
+      if (file !== fileName && new RegExp(`^coverage-shard-${shard.index}(-[0-9a-f]+)?\\.json(\\.gz)?$`).test(file)) {
+        await fs.promises.unlink(path.join(this.shardedCoverageDir, file));
+      }
+    }
   }
 
-  async collectShardCoverage(shardIndex: number, coverageData: any): Promise<void> {
+  /**
+   * Records which source lines the shard hit and, with a recorder, which of
+   * its test files hit them, for `jest-shard coverage who-covers`.
+   */
+  async collectShardAttribution(
+    shard: ShardInfo,
+    coverageData: any,
+    options: { tests?: TestAttributionRecorder; runId?: string } = {}
+  ): Promise<void> {
     this.ensureDirectory(this.shardedCoverageDir);
 
-    const shardFile = path.join(this.shardedCoverageDir, `coverage-shard-${shardIndex}.json`);
+    const artifact = createAttributionArtifact(shard, toProjectCoverage(coverageData, this.projectRoot), options);
+    const attributionFile = path.join(this.shardedCoverageDir, `attribution-shard-${shard.index}.json.gz`);
 
-    await fs.promises.writeFile(shardFile, JSON.stringify(coverageData, null, 2));
+    await fs.promises.writeFile(attributionFile, await gzip(JSON.stringify(artifact)));
   }
 
+  /**
+   * Checks the shards against each other from their metadata, then reads
+   * and merges one file at a time, so memory holds the merged map and a
+   * single shard rather than every shard at once.
+   */
   async mergeCoverage(options: MergeOptions = {}): Promise<CoverageMap> {
-    const shardFiles = await glob(path.join(this.shardedCoverageDir, 'coverage-shard-*.json'));
+    const verbose = options.verbose || this.verbose;
+    const startTime = Date.now();
+    const headers = await this.readShardHeaders();
+    const inputFiles = options.inputs && options.inputs.length > 0 ? (await glob(options.inputs)).sort() : [];
 
-    if (shardFiles.length === 0) {
+    if (headers.length === 0 && inputFiles.length === 0) {
       throw new Error('No shard coverage files found to merge');
     }
 
-    const coverageFiles: CoverageFile[] = [];
+    let check = checkShardArtifacts(headers, { runId: options.runId });
+    const reportMismatch = () => {
+      if (!options.allowMismatchedShards) {
+        throw new ShardArtifactError(check);
+      }
+      console.warn(`Merging the shard coverage that adds up:\n${formatShardArtifactCheck(check)}`);
+    };
 
-    for (const file of shardFiles) {
+    if (headers.length > 0 && !isShardArtifactCheckClean(check)) {
+      reportMismatch();
+    }
+
+    if (verbose && check.unverified.length > 0) {
+      console.log(`Merging ${check.unverified.length} shard file(s) without run metadata unchecked`);
+    }
+
+    const mergedCoverage = createCoverageMap({});
+    const rejected = new Set(check.rejected.map(file => file.path));
+
+    for (const [i, header] of headers.entries()) {
+      if (rejected.has(header.path)) {
+        continue;
+      }
+
+      const fileStart = Date.now();
+      const file = await readShardCoverageFile(header.path);
+
+      // Checksums are only known once the coverage is read
+      if (file.error || !file.coverage) {
+        headers[i] = { ...header, error: file.error };
+        check = checkShardArtifacts(headers, { runId: check.runId, total: check.total });
+        reportMismatch();
+        continue;
+      }
+
+      mergedCoverage.merge(this.merger.merge([{ path: file.path, coverage: file.coverage }]));
+
+      if (verbose) {
+        const { size } = await fs.promises.stat(file.path);
+        console.log(`Merged ${path.basename(file.path)}: ${Object.keys(file.coverage).length} file(s), ` +
+          `${formatSize(size)} in ${Date.now() - fileStart}ms`);
+      }
+    }
+
+    for (const file of inputFiles) {
       try {
-        const coverage = JSON.parse(await fs.promises.readFile(file, 'utf8'));
-        coverageFiles.push({ path: file, coverage });
+        const coverage = parseCoverageFile(file, await readCoverageText(file), options.inputFormat);
+        mergedCoverage.merge(this.merger.merge([{ path: file, coverage: rebaseReportPaths(coverage, file, this.projectRoot) }]));
       } catch (error) {
         console.warn(`Error reading ${file}:`, error);
       }
     }
 
-    const mergedCoverage = this.merger.merge(coverageFiles);
+    if (options.collectCoverageFrom && options.collectCoverageFrom.length > 0) {
+      const untested = addUntestedFiles(mergedCoverage, options.collectCoverageFrom, options.rootDir || this.projectRoot);
+      if (verbose && untested.length > 0) {
+        console.log(`Added ${untested.length} file(s) no shard loaded with zero coverage`);
+      }
+    }
+
+    if (verbose) {
+      console.log(`Merged ${mergedCoverage.files().length} source file(s) in ${Date.now() - startTime}ms, ` +
+        `heap ${formatSize(process.memoryUsage().heapUsed)}`);
+    }
 
     this.ensureDirectory(this.finalCoverageDir);
 
+    const reportStart = Date.now();
     const mergedFile = path.join(this.finalCoverageDir, 'coverage-final.json');
-    await fs.promises.writeFile(
-      mergedFile,
-      JSON.stringify(mergedCoverage.toJSON(), null, 2)
-    );
+    await writeCoverageJson(mergedFile, mergedCoverage);
 
     if (options.reportFormats && options.reportFormats.length > 0) {
       this.merger.generateReports(
         mergedCoverage,
         this.finalCoverageDir,
-        options.reportFormats
+        options.reportFormats,
+        options
       );
     }
 
+    if (verbose) {
+      const { size } = await fs.promises.stat(mergedFile);
+      console.log(`Wrote coverage-final.json (${formatSize(size)}) and reports in ${Date.now() - reportStart}ms`);
+    }
+
     if (options.cleanupShardFiles) {
       await this.cleanupShardFiles();
     }
 
+    // Thresholds only make sense once every shard's coverage is combined
+    if (options.coverageThreshold) {
+      const violations = evaluateCoverageThresholds(mergedCoverage, options.coverageThreshold, this.projectRoot);
+      if (violations.length > 0) {
+        throw new CoverageThresholdError(violations, mergedCoverage);
+      }
+    }
+
     return mergedCoverage;
   }
 
+  /**
+   * Shard coverage files in any supported format: the reporter writes
+   * gzipped Istanbul JSON with run metadata, and `coverage-shard-N.info` or
+   * `.xml` files dropped next to them (e.g. from shards that only emit LCOV
+   * or Cobertura) merge too, gzipped or not.
+   */
+  private async findShardFiles(): Promise<string[]> {
+    const files = await glob(path.join(this.shardedCoverageDir, 'coverage-shard-*.{json,info,lcov,xml}{,.gz}'));
+    return files.sort();
+  }
+
+  private async readShardHeaders(): Promise<ShardCoverageFile[]> {
+    const headers: ShardCoverageFile[] = [];
+    for (const file of await this.findShardFiles()) {
+      headers.push(await readShardArtifactHeader(file));
+    }
+    return headers;
+  }
+
+  /**
+   * Which shard files make up one run, with the run's missing indices and
+   * the files left out; `expected` pins the run and its shard count. Only
+   * the metadata is read, so checksums are verified when merging.
+   */
+  async checkShards(expected: { runId?: string; total?: number } = {}): Promise<ShardArtifactCheck> {
+    return checkShardArtifacts(await this.readShardHeaders(), expected);
+  }
+
   async cleanupShardFiles(): Promise<void> {
-    const shardFiles = await glob(path.join(this.shardedCoverageDir, 'coverage-shard-*.json'));
+    const shardFiles = await this.findShardFiles();
 
     for (const file of shardFiles) {
       try {
@@ -131,12 +338,12 @@ export class CoverageCollector {
   }
 
   async getShardCount(): Promise<number> {
-    const shardFiles = await glob(path.join(this.shardedCoverageDir, 'coverage-shard-*.json'));
+    const shardFiles = await this.findShardFiles();
     return shardFiles.length;
   }
 
-  async isAllShardsComplete(expectedShards: number): Promise<boolean> {
-    const count = await this.getShardCount();
-    return count === expectedShards;
+  async isAllShardsComplete(expectedShards: number, runId?: string): Promise<boolean> {
+    const check = await this.checkShards({ runId, total: expectedShards });
+    return check.missing.length === 0;
   }
-}
\ No newline at end of file
+}
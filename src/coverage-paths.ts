@@ -0,0 +1,153 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createCoverageMap, CoverageMapData } from 'istanbul-lib-coverage';
+import { toProjectPath } from './paths';
+import { CoveragePathOptions } from './types';
+
+// POSIX and Windows absolute paths, whichever machine produced them
+function isAbsolutePath(filePath: string): boolean {
+  return /^(?:[a-zA-Z]:)?\//.test(filePath);
+}
+
+function toPosix(filePath: string): string {
+  return filePath.replace(/\\/g, '/');
+}
+
+// V8 coverage identifies scripts by URL; Jest converts them, other tools may not
+function fromFileUrl(filePath: string): string {
+  if (!filePath.startsWith('file://')) {
+    return filePath;
+  }
+  return decodeURIComponent(filePath.slice('file://'.length)).replace(/^\/([a-zA-Z]:)/, '$1');
+}
+
+function startsWithDirectory(filePath: string, prefix: string): boolean {
+  const dir = prefix.replace(/\/+$/, '');
+  return filePath === dir || filePath.startsWith(`${dir}/`);
+}
+
+/**
+ * Finds a path checked out somewhere else in this project by its longest
+ * suffix that exists under the project root.
+ */
+function locateInProject(filePath: string, projectRoot: string): string | undefined {
+  const segments = filePath.split('/').filter(Boolean);
+
+  for (let i = 1; i < segments.length; i++) {
+    const candidate = segments.slice(i).join('/');
+    if (fs.existsSync(path.join(projectRoot, candidate))) {
+      return candidate;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Rewrites a source path recorded on any machine to the project-relative,
+ * forward-slash form stored in shard artifacts. `pathMap` rewrites run
+ * first, then `stripPrefix`; absolute paths outside the project root are
+ * then matched against the files in this checkout. Paths that cannot be
+ * placed are returned unchanged.
+ */
+export function normalizeCoveragePath(
+  filePath: string,
+  projectRoot: string = process.cwd(),
+  options: CoveragePathOptions = {}
+): string {
+  let file = toPosix(fromFileUrl(filePath));
+
+  for (const [from, to] of Object.entries(options.pathMap || {})) {
+    if (startsWithDirectory(file, toPosix(from))) {
+      file = toPosix(to).replace(/\/+$/, '') + file.slice(toPosix(from).replace(/\/+$/, '').length);
+      break;
+    }
+  }
+
+  for (const prefix of options.stripPrefix || []) {
+    if (startsWithDirectory(file, toPosix(prefix))) {
+      file = file.slice(toPosix(prefix).replace(/\/+$/, '').length).replace(/^\/+/, '');
+      break;
+    }
+  }
+
+  if (!isAbsolutePath(file)) {
+    return path.posix.normalize(file);
+  }
+
+  const root = toPosix(path.resolve(projectRoot));
+  if (startsWithDirectory(file, root)) {
+    return toProjectPath(file, projectRoot);
+  }
+
+  return locateInProject(file, projectRoot) ?? file;
+}
+
+/**
+ * Re-keys coverage data through `rewrite`, merging entries that end up on
+ * the same path.
+ */
+export function rewriteCoveragePaths(data: CoverageMapData, rewrite: (filePath: string) => string): CoverageMapData {
+  const source = createCoverageMap(data);
+  const coverageMap = createCoverageMap({});
+
+  for (const file of source.files()) {
+    const target = rewrite(file);
+    // Copied, since merging updates hit counts in place
+    const fileCoverage = JSON.parse(JSON.stringify(source.fileCoverageFor(file).data));
+    coverageMap.merge({ [target]: { ...fileCoverage, path: target } });
+  }
+
+  return Object.fromEntries(coverageMap.files().map(file => [file, coverageMap.fileCoverageFor(file).data]));
+}
+
+/**
+ * Relative paths in a report written by another package (e.g. `SF:src/a.ts`
+ * in `packages/ui/coverage/lcov.info`) are relative to that package, not the
+ * project. Those that don't exist in the project are resolved against the
+ * report's directory and its parents instead, nearest first.
+ */
+export function rebaseReportPaths(
+  data: CoverageMapData,
+  reportFile: string,
+  projectRoot: string = process.cwd()
+): CoverageMapData {
+  const root = path.resolve(projectRoot);
+  const directories: string[] = [];
+  for (let dir = path.dirname(path.resolve(reportFile)); dir.startsWith(root + path.sep); dir = path.dirname(dir)) {
+    directories.push(dir);
+  }
+
+  return rewriteCoveragePaths(data, file => {
+    const posix = toPosix(fromFileUrl(file));
+    if (isAbsolutePath(posix) || fs.existsSync(path.join(root, posix))) {
+      return file;
+    }
+    const dir = directories.find(candidate => fs.existsSync(path.join(candidate, posix)));
+    return dir ? toProjectPath(path.join(dir, posix), root) : file;
+  });
+}
+
+/** Coverage data keyed by project-relative paths, as stored in shard artifacts */
+export function toProjectCoverage(
+  data: CoverageMapData,
+  projectRoot: string = process.cwd(),
+  options: CoveragePathOptions = {}
+): CoverageMapData {
+  return rewriteCoveragePaths(data, file => normalizeCoveragePath(file, projectRoot, options));
+}
+
+/**
+ * Coverage data keyed by absolute paths in this checkout, which is what the
+ * Istanbul reporters and threshold globs expect.
+ */
+export function toLocalCoverage(
+  data: CoverageMapData,
+  projectRoot: string = process.cwd(),
+  options: CoveragePathOptions = {}
+): CoverageMapData {
+  return rewriteCoveragePaths(data, file => {
+    const normalized = normalizeCoveragePath(file, projectRoot, options);
+    return isAbsolutePath(normalized) ? normalized : path.join(path.resolve(projectRoot), normalized);
+  });
+}
@@ -0,0 +1,170 @@
+import * as path from 'path';
+import { globSync } from 'glob';
+import { createCoverageSummary, CoverageMap, CoverageSummary } from 'istanbul-lib-coverage';
+import { getDefaultWatermarks, Watermarks } from 'istanbul-lib-report';
+import { CoverageMetric, CoverageThreshold, CoverageThresholdValue, ThresholdViolation } from './types';
+
+const METRICS: CoverageMetric[] = ['statements', 'branches', 'functions', 'lines'];
+
+export class CoverageThresholdError extends Error {
+  /** `coverageMap` is the merged coverage, already written to the reports */
+  constructor(public readonly violations: ThresholdViolation[], public readonly coverageMap?: CoverageMap) {
+    super(`Coverage thresholds not met:\n${formatViolationTable(violations)}`);
+    this.name = 'CoverageThresholdError';
+  }
+}
+
+function checkThreshold(
+  target: string,
+  threshold: CoverageThresholdValue,
+  summary: CoverageSummary
+): ThresholdViolation[] {
+  const violations: ThresholdViolation[] = [];
+
+  for (const metric of METRICS) {
+    const expected = threshold[metric];
+    if (expected === undefined) {
+      continue;
+    }
+
+    const totals = summary[metric];
+
+    if (expected < 0) {
+      const uncovered = totals.total - totals.covered;
+      if (uncovered > -expected) {
+        violations.push({
+          target,
+          metric,
+          threshold: expected,
+          actual: uncovered,
+          message: `uncovered count for ${metric} (${uncovered}) exceeds ${target} threshold (${-expected})`
+        });
+      }
+    } else if (totals.total > 0 && totals.pct < expected) {
+      violations.push({
+        target,
+        metric,
+        threshold: expected,
+        actual: totals.pct,
+        message: `coverage threshold for ${metric} (${totals.pct}%) not met for ${target}: ${expected}%`
+      });
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Evaluates thresholds against a merged coverage map the same way Jest does
+ * for a single run: path keys are checked against the aggregate of the files
+ * under them, glob keys against every matching file individually, and
+ * `global` against all files not claimed by another key.
+ */
+export function evaluateCoverageThresholds(
+  coverageMap: CoverageMap,
+  thresholds: CoverageThreshold,
+  projectRoot: string = process.cwd()
+): ThresholdViolation[] {
+  const groups = Object.keys(thresholds).filter(group => group !== 'global');
+  const globMatches = new Map<string, Set<string>>();
+  const pathGroups = new Map<string, CoverageSummary>();
+  const globalSummary = createCoverageSummary();
+  const violations: ThresholdViolation[] = [];
+  const matchedGroups = new Set<string>();
+  let globalFiles = 0;
+
+  for (const group of groups) {
+    const absoluteGroup = path.resolve(projectRoot, group);
+    globMatches.set(group, new Set(
+      globSync(absoluteGroup.split(path.sep).join('/'), { absolute: true }).map(file => path.resolve(file))
+    ));
+  }
+
+  for (const coveredFile of coverageMap.files()) {
+    const file = path.resolve(projectRoot, coveredFile);
+    const fileSummary = coverageMap.fileCoverageFor(coveredFile).toSummary();
+    let claimed = false;
+
+    for (const group of groups) {
+      if (file.startsWith(path.resolve(projectRoot, group))) {
+        const summary = pathGroups.get(group) || createCoverageSummary();
+        summary.merge(fileSummary);
+        pathGroups.set(group, summary);
+        matchedGroups.add(group);
+        claimed = true;
+      } else if (globMatches.get(group)!.has(file)) {
+        violations.push(...checkThreshold(path.relative(projectRoot, file), thresholds[group], fileSummary));
+        matchedGroups.add(group);
+        claimed = true;
+      }
+    }
+
+    if (!claimed && thresholds.global) {
+      globalSummary.merge(fileSummary);
+      globalFiles++;
+    }
+  }
+
+  for (const [group, summary] of pathGroups) {
+    violations.push(...checkThreshold(group, thresholds[group], summary));
+  }
+
+  for (const group of groups) {
+    if (!matchedGroups.has(group)) {
+      violations.push({
+        target: group,
+        message: `coverage data for ${group} was not found`
+      });
+    }
+  }
+
+  if (thresholds.global && globalFiles > 0) {
+    violations.unshift(...checkThreshold('global', thresholds.global, globalSummary));
+  }
+
+  return violations;
+}
+
+/**
+ * Report watermarks the way Jest derives them: Istanbul's defaults, with
+ * the high mark of each metric raised or lowered to its global threshold.
+ */
+export function watermarksFromThreshold(thresholds?: CoverageThreshold): Partial<Watermarks> {
+  const watermarks: Partial<Watermarks> = {};
+
+  for (const metric of METRICS) {
+    const threshold = thresholds?.global?.[metric];
+    // Negative thresholds count uncovered entities, not percentages
+    if (threshold !== undefined && threshold >= 0) {
+      watermarks[metric] = [getDefaultWatermarks()[metric][0], threshold];
+    }
+  }
+
+  return watermarks;
+}
+
+export function formatViolationTable(violations: ThresholdViolation[]): string {
+  const rows = violations.map(({ target, metric, threshold, actual }) => {
+    if (!metric || threshold === undefined) {
+      return [target, '-', '-', 'no coverage data'];
+    }
+
+    return [
+      target,
+      metric,
+      threshold < 0 ? `≤ ${-threshold} uncovered` : `${threshold}%`,
+      threshold < 0 ? `${actual} uncovered` : `${actual}%`
+    ];
+  });
+  const header = ['Target', 'Metric', 'Threshold', 'Actual'];
+  const widths = header.map((title, column) =>
+    Math.max(title.length, ...rows.map(row => row[column].length))
+  );
+  const formatRow = (row: string[]) => row.map((cell, column) => cell.padEnd(widths[column])).join(' | ');
+
+  return [
+    formatRow(header),
+    widths.map(width => '-'.repeat(width)).join('-|-'),
+    ...rows.map(formatRow)
+  ].join('\n');
+}
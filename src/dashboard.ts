@@ -0,0 +1,237 @@
+import { EventEmitter } from 'events';
+import chalk from 'chalk';
+import { ShardRunResult, ShardStartEvent, TestResultEvent } from './types';
+
+interface ShardView {
+  status: 'pending' | 'running' | 'completed' | 'failed';
+  attempt: number;
+  startTime?: number;
+  endTime?: number;
+  testFiles?: string[];
+  results: Map<string, TestResultEvent>;
+}
+
+export interface DashboardOptions {
+  totalShards: number;
+  maxParallel: number;
+  /** Project-relative paths of every test file the run is expected to execute */
+  testFiles: string[];
+  /** Expected duration in ms per project-relative test path, from the timing history */
+  estimates?: Record<string, number>;
+  /** Redraw in place; defaults to whether stdout is a terminal */
+  tty?: boolean;
+  /** How often plain mode prints a progress line, in ms */
+  plainInterval?: number;
+}
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  return seconds >= 60 ? `${Math.floor(seconds / 60)}m${String(seconds % 60).padStart(2, '0')}s` : `${seconds}s`;
+}
+
+/**
+ * Live view of a `jest-shard run`, fed by the coordinator's `shard:start`,
+ * `test:result` and `shard:complete` events. On a terminal it redraws a
+ * table below the regular output; anywhere else (CI logs) it prints a
+ * progress line every now and then instead.
+ */
+export class ShardDashboard {
+  private shards = new Map<number, ShardView>();
+  private startTime = Date.now();
+  private tty: boolean;
+  private timer?: NodeJS.Timeout;
+  private drawnLines = 0;
+  private originalWrite?: { stdout: typeof process.stdout.write; stderr: typeof process.stderr.write };
+
+  constructor(private options: DashboardOptions) {
+    this.tty = options.tty ?? Boolean(process.stdout.isTTY);
+
+    for (let i = 1; i <= options.totalShards; i++) {
+      this.shards.set(i, { status: 'pending', attempt: 0, results: new Map() });
+    }
+  }
+
+  attach(coordinator: EventEmitter): void {
+    coordinator.on('shard:start', (event: ShardStartEvent) => {
+      const shard = this.shards.get(event.shardId)!;
+      shard.status = 'running';
+      shard.attempt = event.attempt;
+      shard.startTime = shard.startTime ?? Date.now();
+      // A retry only reruns some files; keep the full assignment
+      if (event.attempt === 1) {
+        shard.testFiles = event.testFiles;
+      }
+    });
+
+    coordinator.on('test:result', (event: TestResultEvent) => {
+      // Retried files replace their earlier result
+      this.shards.get(event.shardId)?.results.set(event.path, event);
+    });
+
+    coordinator.on('shard:complete', (result: ShardRunResult) => {
+      const shard = this.shards.get(result.shardId)!;
+      shard.status = result.status;
+      shard.endTime = Date.now();
+
+      if (!this.tty) {
+        this.printPlain();
+      }
+    });
+  }
+
+  start(): void {
+    this.startTime = Date.now();
+
+    if (!this.tty) {
+      this.timer = setInterval(() => this.printPlain(), this.options.plainInterval ?? 30000);
+      this.timer.unref();
+      return;
+    }
+
+    // Anything else written to the terminal goes above the table
+    this.originalWrite = { stdout: process.stdout.write, stderr: process.stderr.write };
+    for (const stream of ['stdout', 'stderr'] as const) {
+      const original = this.originalWrite[stream];
+      process[stream].write = ((...args: Parameters<typeof original>) => {
+        this.clear();
+        return original.apply(process[stream], args);
+      }) as typeof original;
+    }
+
+    this.timer = setInterval(() => this.draw(), 250);
+    this.timer.unref();
+    this.draw();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+
+    if (this.originalWrite) {
+      this.draw();
+      this.drawnLines = 0;
+      process.stdout.write = this.originalWrite.stdout;
+      process.stderr.write = this.originalWrite.stderr;
+      this.originalWrite = undefined;
+    }
+  }
+
+  /**
+   * Remaining time, spreading the expected duration of unfinished files over
+   * the shards that can still run in parallel. Files without history are
+   * assumed to take as long as the average file finished so far.
+   */
+  estimateRemaining(): number | undefined {
+    const finished = new Map<string, TestResultEvent>();
+    for (const shard of this.shards.values()) {
+      shard.results.forEach((result, file) => finished.set(file, result));
+    }
+
+    const estimates = this.options.estimates || {};
+    const known = Object.values(estimates);
+    const observed = [...finished.values()].map(result => result.duration);
+    const fallback = observed.length > 0
+      ? observed.reduce((sum, duration) => sum + duration, 0) / observed.length
+      : known.length > 0 ? known.reduce((sum, duration) => sum + duration, 0) / known.length : undefined;
+
+    const remainingFiles = this.options.testFiles.filter(file => !finished.has(file));
+    if (remainingFiles.length === 0) {
+      return 0;
+    }
+
+    let remaining = 0;
+    for (const file of remainingFiles) {
+      const estimate = estimates[file] ?? fallback;
+      if (estimate === undefined) {
+        return undefined;
+      }
+      remaining += estimate;
+    }
+
+    const unfinishedShards = [...this.shards.values()]
+      .filter(shard => shard.status === 'pending' || shard.status === 'running').length;
+    return remaining / Math.max(1, Math.min(this.options.maxParallel, unfinishedShards));
+  }
+
+  render(): string[] {
+    const now = Date.now();
+    const rows = [...this.shards.entries()].map(([shardId, shard]) => {
+      const results = [...shard.results.values()];
+      const elapsed = shard.startTime ? (shard.endTime ?? now) - shard.startTime : 0;
+      const status = shard.status === 'running' && shard.attempt > 1 ? `retry ${shard.attempt - 1}` : shard.status;
+
+      return [
+        `${shardId}/${this.options.totalShards}`,
+        status,
+        shard.testFiles ? `${results.length}/${shard.testFiles.length}` : String(results.length),
+        String(results.reduce((sum, result) => sum + result.numPassingTests, 0)),
+        String(results.reduce((sum, result) => sum + result.numFailingTests, 0)),
+        shard.startTime ? formatDuration(elapsed) : '-'
+      ];
+    });
+
+    const header = ['Shard', 'Status', 'Files', 'Passed', 'Failed', 'Time'];
+    const widths = header.map((title, column) => Math.max(title.length, ...rows.map(row => row[column].length)));
+    const formatRow = (row: string[]) => '  ' + row.map((cell, column) => cell.padEnd(widths[column])).join('  ');
+    const colorStatus = (line: string, status: string) => {
+      if (status === 'failed') return chalk.red(line);
+      if (status === 'completed') return chalk.green(line);
+      if (status === 'pending') return chalk.gray(line);
+      return line;
+    };
+
+    return [
+      chalk.bold(formatRow(header)),
+      ...rows.map((row, index) => colorStatus(formatRow(row), this.shards.get(index + 1)!.status)),
+      '  ' + this.formatTotals()
+    ];
+  }
+
+  private formatTotals(): string {
+    let files = 0;
+    let passed = 0;
+    let failed = 0;
+
+    for (const shard of this.shards.values()) {
+      for (const result of shard.results.values()) {
+        files++;
+        passed += result.numPassingTests;
+        failed += result.numFailingTests;
+      }
+    }
+
+    const eta = this.estimateRemaining();
+    return [
+      `${files}/${this.options.testFiles.length} files`,
+      chalk.green(`${passed} passed`),
+      failed > 0 ? chalk.red(`${failed} failed`) : `${failed} failed`,
+      `${formatDuration(Date.now() - this.startTime)} elapsed`,
+      `ETA ${eta === undefined ? '-' : formatDuration(eta)}`
+    ].join(' · ');
+  }
+
+  private draw(): void {
+    if (!this.originalWrite) {
+      return;
+    }
+
+    this.clear();
+    const lines = this.render();
+    this.originalWrite.stdout.call(process.stdout, lines.join('\n') + '\n');
+    this.drawnLines = lines.length;
+  }
+
+  private clear(): void {
+    if (this.drawnLines > 0 && this.originalWrite) {
+      // Move up over the table and erase everything below the cursor
+      this.originalWrite.stdout.call(process.stdout, `\x1b[${this.drawnLines}A\x1b[J`);
+      this.drawnLines = 0;
+    }
+  }
+
+  private printPlain(): void {
+    console.log(`⏳ Progress: ${this.formatTotals()}`);
+  }
+}
@@ -0,0 +1,57 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { SHARDING_STRATEGIES, createShardingStrategy } from './sharding-strategy';
+import { expectedDurations } from './shard-advisor';
+import { toProjectPath } from './paths';
+import { StrategyDistribution, TimingHistory } from './types';
+
+/**
+ * Runs every bundled sharding strategy over the real test list and reports
+ * how evenly each one splits it. The imbalance ratio is the slowest shard's
+ * predicted duration over the mean: 1 is a perfect split.
+ */
+export function previewDistributions(options: {
+  testPaths: string[];
+  totalShards: number;
+  history: TimingHistory;
+  historyFile?: string;
+  projectRoot?: string;
+}): StrategyDistribution[] {
+  const projectRoot = options.projectRoot || process.cwd();
+  // Same input order the test sequencer uses
+  const testPaths = options.testPaths.map(testPath => toProjectPath(testPath, projectRoot)).sort();
+  const expected = expectedDurations(testPaths, options.history, projectRoot);
+  const durations = new Map(testPaths.map((testPath, i) => [testPath, expected[i]]));
+  const sizes = new Map(testPaths.map(testPath => [testPath, fileSize(path.resolve(projectRoot, testPath))]));
+
+  return SHARDING_STRATEGIES.map(name => {
+    const strategy = createShardingStrategy(name, options.historyFile);
+
+    const shards = Array.from({ length: options.totalShards }, (_, i) => {
+      const files = strategy.distributeTests(testPaths, { index: i + 1, total: options.totalShards });
+      return {
+        index: i + 1,
+        files: files.length,
+        bytes: files.reduce((sum, file) => sum + (sizes.get(file) || 0), 0),
+        expectedDuration: files.reduce((sum, file) => sum + (durations.get(file) || 0), 0)
+      };
+    });
+
+    const slowest = Math.max(...shards.map(shard => shard.expectedDuration));
+    const mean = shards.reduce((sum, shard) => sum + shard.expectedDuration, 0) / shards.length;
+
+    return {
+      strategy: name,
+      shards,
+      imbalance: mean > 0 ? slowest / mean : 1
+    };
+  });
+}
+
+function fileSize(filePath: string): number {
+  try {
+    return fs.statSync(filePath).size;
+  } catch {
+    return 0;
+  }
+}
@@ -0,0 +1,59 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { toProjectPath } from './paths';
+import { FlakeLogFile, FlakeRecord } from './types';
+
+export const FLAKE_LOG_SCHEMA_VERSION = 1;
+
+/**
+ * Append-only record of test files that failed and then passed on retry.
+ */
+export class FlakeLog {
+  constructor(private logFile: string = '.jest-shard-flakes.json') {}
+
+  read(): FlakeLogFile {
+    try {
+      if (fs.existsSync(this.logFile)) {
+        return JSON.parse(fs.readFileSync(this.logFile, 'utf8'));
+      }
+    } catch (error) {
+      console.warn('Could not read flake log:', error);
+    }
+    return { schemaVersion: FLAKE_LOG_SCHEMA_VERSION, flakes: [] };
+  }
+
+  record(flakes: FlakeRecord[]): void {
+    if (flakes.length === 0) {
+      return;
+    }
+
+    const log = this.read();
+    log.flakes.push(...flakes);
+
+    try {
+      fs.writeFileSync(this.logFile, JSON.stringify(log, null, 2));
+    } catch (error) {
+      console.warn('Could not write flake log:', error);
+    }
+  }
+}
+
+/**
+ * Reads a quarantine list: a JSON array of test paths relative to the project
+ * root, or a `{ "files": [...] }` object. Returns absolute paths.
+ */
+export function loadQuarantineList(quarantineFile: string, projectRoot: string = process.cwd()): string[] {
+  const data = JSON.parse(fs.readFileSync(quarantineFile, 'utf8'));
+  const files: unknown = Array.isArray(data) ? data : data.files;
+
+  if (!Array.isArray(files) || files.some(file => typeof file !== 'string')) {
+    throw new Error(`Quarantine list ${quarantineFile} must be an array of test file paths`);
+  }
+
+  return files.map(file => path.resolve(projectRoot, file));
+}
+
+export function isQuarantined(testPath: string, quarantined: string[], projectRoot: string = process.cwd()): boolean {
+  const relative = toProjectPath(testPath, projectRoot);
+  return quarantined.some(file => toProjectPath(file, projectRoot) === relative);
+}
@@ -1,40 +1,229 @@
 export { JestShardReporter } from './reporter';
 export { JestShardReporter as default } from './reporter';
 export { CoverageCollector, IstanbulCoverageMerger } from './coverage-merger';
+export {
+  CoverageThresholdError,
+  evaluateCoverageThresholds,
+  formatViolationTable,
+  watermarksFromThreshold
+} from './coverage-threshold';
 export {
   RoundRobinStrategy,
   HashBasedStrategy,
   FileSizeStrategy,
-  SmartStrategy
+  SmartStrategy,
+  SHARDING_STRATEGIES,
+  createShardingStrategy
 } from './sharding-strategy';
-export { AutoShardRunner, AutoShardCoordinator } from './auto-shard';
+export type { ShardingStrategyName } from './sharding-strategy';
+export { ShardingTestSequencer } from './test-sequencer';
+export { AutoShardRunner, AutoShardCoordinator, runExitCode } from './auto-shard';
+export { TimingCollector, loadTimingHistory, mergeTimingArtifacts } from './timing-history';
+export { TestResultsCollector, mergeShardResults, toJUnitXml } from './test-results';
+export { FlakeLog, loadQuarantineList } from './flaky-tests';
+export { ShardOutputMultiplexer } from './output-multiplexer';
+export type { ShardOutputMode } from './output-multiplexer';
+export { ShardDashboard } from './dashboard';
+export {
+  recommendShardCount,
+  predictWallTime,
+  expectedDurations,
+  DEFAULT_FILE_DURATION,
+  DEFAULT_SHARD_OVERHEAD
+} from './shard-advisor';
+export { previewDistributions } from './distribution-preview';
+export { addUntestedFiles, matchCoverageSources } from './untested-files';
+export { normalizeCoveragePath, toProjectCoverage, toLocalCoverage } from './coverage-paths';
+export {
+  COVERAGE_INPUT_FORMATS,
+  detectCoverageFormat,
+  parseCoverage,
+  parseLcov,
+  parseCobertura
+} from './coverage-formats';
+export type { CoverageInputFormat } from './coverage-formats';
+export {
+  COVERAGE_SCHEMA_VERSION,
+  ShardArtifactError,
+  checkShardArtifacts,
+  formatShardArtifactCheck,
+  hashJestConfig,
+  resolveRunId
+} from './coverage-artifacts';
+export {
+  ATTRIBUTION_SCHEMA_VERSION,
+  TestAttributionRecorder,
+  formatWhoCovers,
+  parseLineRanges,
+  readAttributionArtifacts,
+  whoCovers
+} from './coverage-attribution';
+export {
+  diffCoverage,
+  loadCoverageReport,
+  parseUnifiedDiff,
+  formatCoverageDiff,
+  formatCoverageDiffMarkdown,
+  formatLineRanges
+} from './coverage-diff';
+export {
+  TestListMismatchError,
+  checkShardTestFiles,
+  verifyShardTestFiles,
+  isTestListComplete,
+  formatTestListCheck
+} from './shard-verification';
+export { ShardPlanError, createShardPlan, readShardPlan, verifyShardPlan, hashTestList } from './shard-plan';
+export type { DashboardOptions } from './dashboard';
 export type {
   ShardReporterOptions,
   ShardInfo,
   CoverageFile,
   MergeOptions,
+  CoveragePathOptions,
+  CoverageReporterSpec,
+  ReportOptions,
+  ShardRunMetadata,
+  ShardCoverageArtifact,
+  ShardArtifactCheck,
+  CoverageAttributionLevel,
+  SourceFileAttribution,
+  ShardAttributionArtifact,
+  CoverageAttribution,
+  CoverageDiff,
+  CoverageMetricDelta,
+  CoverageMetricDeltas,
+  FileCoverageDiff,
+  ChangedLinesCoverage,
   TestShardingStrategy,
-  CoverageMerger
+  CoverageMerger,
+  TimingSample,
+  ShardTimingArtifact,
+  TimingHistory,
+  TimingHistoryEntry,
+  TimingHistoryOptions,
+  TestCaseSummary,
+  TestFileSummary,
+  ShardResultsArtifact,
+  MergedTestResults,
+  ResultsReportOptions,
+  CoverageMetric,
+  CoverageThreshold,
+  CoverageThresholdValue,
+  ThresholdViolation,
+  FlakeRecord,
+  FlakeLogFile,
+  TestCounts,
+  ShardRunResult,
+  ShardFailureReason,
+  RunSummary,
+  ShardStartEvent,
+  ShardOutputEvent,
+  TestResultEvent,
+  CoverageMergedEvent,
+  AutoShardEvents,
+  ShardPlan,
+  ShardPlanShard,
+  ShardCountPrediction,
+  ShardCountRecommendation,
+  StrategyDistribution,
+  TestListCheck,
+  ShardPlanFile
 } from './types';
 
 import { CoverageCollector } from './coverage-merger';
+import { CoverageThresholdError, formatViolationTable, watermarksFromThreshold } from './coverage-threshold';
+import { ShardArtifactError, formatShardArtifactCheck } from './coverage-artifacts';
+import { readJestConfig } from './jest-config';
+import type { CoverageMap } from 'istanbul-lib-coverage';
+import type { CoverageReporterSpec, CoverageThreshold } from './types';
+import type { Watermarks } from 'istanbul-lib-report';
+import type { CoverageInputFormat } from './coverage-formats';
 
 export async function mergeCoverageReports(options?: {
   shardedCoverageDir?: string;
   finalCoverageDir?: string;
-  reportFormats?: string[];
+  // Defaults to the Jest config's coverageReporters, tuples with reporter options included
+  reportFormats?: CoverageReporterSpec[];
+  // Overrides on top of Istanbul's defaults and the Jest config's coverageThreshold.global
+  watermarks?: Partial<Watermarks>;
+  skipEmpty?: boolean;
+  skipFull?: boolean;
+  reporterOptions?: Record<string, Record<string, unknown>>;
   cleanupShardFiles?: boolean;
-}): Promise<void> {
-  const collector = new CoverageCollector(options);
+  // Defaults to the Jest config's coverageThreshold; pass false to skip the check
+  coverageThreshold?: CoverageThreshold | false;
+  // Defaults to the Jest config's collectCoverageFrom; pass false to report only loaded files
+  collectCoverageFrom?: string[] | false;
+  // Rewrites for source paths recorded in other checkouts, applied before merging
+  stripPrefix?: string[];
+  pathMap?: Record<string, string>;
+  // LCOV, Cobertura or Istanbul files to merge with the shard files
+  inputs?: string[];
+  inputFormat?: CoverageInputFormat;
+  // Run whose shards to merge (defaults to the newest shard's); shards from other runs fail the merge unless allowed
+  runId?: string;
+  allowMismatchedShards?: boolean;
+  // Per-shard sizes and timings, and the memory in use after merging
+  verbose?: boolean;
+  jestConfig?: string;
+  // Where the Jest config is read from (defaults to the working directory)
+  projectRoot?: string;
+}): Promise<CoverageMap> {
+  const needsConfig = options?.coverageThreshold === undefined
+    || options?.collectCoverageFrom === undefined
+    || options?.reportFormats === undefined
+    || options?.watermarks === undefined;
+  const globalConfig = needsConfig ? readJestConfig(options?.projectRoot || process.cwd(), options?.jestConfig)?.globalConfig : undefined;
+
+  const coverageThreshold = options?.coverageThreshold === undefined
+    ? globalConfig?.coverageThreshold
+    : options.coverageThreshold || undefined;
+  const collectCoverageFrom = options?.collectCoverageFrom === undefined
+    ? globalConfig?.collectCoverageFrom
+    : options.collectCoverageFrom || undefined;
+
+  const collector = new CoverageCollector({
+    shardedCoverageDir: options?.shardedCoverageDir,
+    finalCoverageDir: options?.finalCoverageDir,
+    stripPrefix: options?.stripPrefix,
+    pathMap: options?.pathMap,
+    rootDir: globalConfig?.rootDir || options?.projectRoot,
+    verbose: options?.verbose
+  });
 
   try {
-    await collector.mergeCoverage({
-      reportFormats: options?.reportFormats || ['html', 'text', 'lcov', 'json'],
-      cleanupShardFiles: options?.cleanupShardFiles || false
+    const coverageMap = await collector.mergeCoverage({
+      reportFormats: options?.reportFormats || globalConfig?.coverageReporters || ['html', 'text', 'lcov', 'json'],
+      watermarks: {
+        ...watermarksFromThreshold(coverageThreshold || globalConfig?.coverageThreshold),
+        ...options?.watermarks
+      },
+      skipEmpty: options?.skipEmpty,
+      skipFull: options?.skipFull,
+      reporterOptions: options?.reporterOptions,
+      cleanupShardFiles: options?.cleanupShardFiles || false,
+      coverageThreshold,
+      collectCoverageFrom,
+      inputs: options?.inputs,
+      inputFormat: options?.inputFormat,
+      runId: options?.runId,
+      allowMismatchedShards: options?.allowMismatchedShards
     });
     console.log('✅ Coverage reports merged successfully');
+    return coverageMap;
   } catch (error) {
-    console.error('❌ Error merging coverage reports:', error);
-    process.exit(1);
+    if (error instanceof CoverageThresholdError) {
+      console.error('❌ Merged coverage does not meet the configured thresholds:\n');
+      console.error(formatViolationTable(error.violations));
+    } else if (error instanceof ShardArtifactError) {
+      console.error('❌ Shard coverage files do not add up to one run:\n');
+      console.error(formatShardArtifactCheck(error.check));
+      console.error('\nRe-run the missing shards or pass --allow-mismatched-shards to merge what is there');
+    } else {
+      console.error('❌ Error merging coverage reports:', error);
+    }
+    // Left to the caller: the CLI exits non-zero, a run records it in its summary
+    throw error;
   }
 }
\ No newline at end of file
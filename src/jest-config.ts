@@ -0,0 +1,40 @@
+import { execSync } from 'child_process';
+import type { Config } from '@jest/types';
+
+export interface ResolvedJestConfig {
+  globalConfig: Config.GlobalConfig;
+  configs: Config.ProjectConfig[];
+}
+
+const cache = new Map<string, ResolvedJestConfig | null>();
+
+/**
+ * Resolves the project's Jest configuration through `jest --showConfig`, so
+ * presets, `<rootDir>` and config files in any format are handled by Jest
+ * itself. Returns `null` when Jest cannot be run.
+ */
+export function readJestConfig(projectRoot: string = process.cwd(), jestConfig?: string): ResolvedJestConfig | null {
+  const cacheKey = `${projectRoot}\0${jestConfig || ''}`;
+
+  if (!cache.has(cacheKey)) {
+    try {
+      const args = ['jest', '--showConfig'];
+      if (jestConfig) {
+        args.push('--config', jestConfig);
+      }
+
+      const output = execSync(`npx ${args.join(' ')}`, {
+        encoding: 'utf8',
+        cwd: projectRoot,
+        stdio: ['pipe', 'pipe', 'ignore']
+      });
+
+      const { globalConfig, configs } = JSON.parse(output);
+      cache.set(cacheKey, { globalConfig, configs });
+    } catch {
+      cache.set(cacheKey, null);
+    }
+  }
+
+  return cache.get(cacheKey)!;
+}
@@ -0,0 +1,90 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { ChildProcess } from 'child_process';
+import chalk from 'chalk';
+import { stripAnsi } from './test-results';
+
+export type ShardOutputMode = 'inherit' | 'prefix' | 'buffered';
+
+const PREFIX_COLORS = [chalk.cyan, chalk.magenta, chalk.yellow, chalk.green, chalk.blue, chalk.red];
+
+/**
+ * Keeps the output of parallel shards readable. In `prefix` mode every line
+ * is tagged with its shard as it arrives; in `buffered` mode a shard's output
+ * is held back and printed as one block when the shard exits. Either way the
+ * output is also written to one log file per shard. With `capture`, `inherit`
+ * mode pipes the output too and passes it through unchanged, so line
+ * listeners still see it.
+ */
+export class ShardOutputMultiplexer {
+  private attached = new Set<number>();
+
+  constructor(private options: { mode: ShardOutputMode; totalShards: number; logDir?: string; capture?: boolean }) {
+    if (options.mode !== 'inherit' && options.logDir && !fs.existsSync(options.logDir)) {
+      fs.mkdirSync(options.logDir, { recursive: true });
+    }
+  }
+
+  get stdio(): 'inherit' | ['ignore', 'pipe', 'pipe'] {
+    return this.options.mode === 'inherit' && !this.options.capture ? 'inherit' : ['ignore', 'pipe', 'pipe'];
+  }
+
+  /**
+   * Routes a shard process's output. Retries of the same shard append to its
+   * log file.
+   */
+  attach(shardId: number, child: ChildProcess, onLine?: (line: string, stream: 'stdout' | 'stderr') => void): void {
+    if (this.stdio === 'inherit') {
+      return;
+    }
+
+    const label = `[shard ${shardId}/${this.options.totalShards}]`;
+    const prefix = PREFIX_COLORS[(shardId - 1) % PREFIX_COLORS.length](label);
+    const buffer: string[] = [];
+    const logFile = this.options.logDir && this.options.mode !== 'inherit'
+      ? fs.createWriteStream(path.join(this.options.logDir, `shard-${shardId}.log`), {
+        flags: this.attached.has(shardId) ? 'a' : 'w'
+      })
+      : undefined;
+
+    this.attached.add(shardId);
+
+    const writeLine = (stream: 'stdout' | 'stderr', line: string) => {
+      logFile?.write(stripAnsi(line) + '\n');
+      onLine?.(line, stream);
+
+      if (this.options.mode === 'buffered') {
+        buffer.push(line);
+      } else if (this.options.mode === 'inherit') {
+        (stream === 'stderr' ? process.stderr : process.stdout).write(line + '\n');
+      } else {
+        (stream === 'stderr' ? process.stderr : process.stdout).write(`${prefix} ${line}\n`);
+      }
+    };
+
+    for (const stream of ['stdout', 'stderr'] as const) {
+      let partial = '';
+
+      child[stream]?.setEncoding('utf8');
+      child[stream]?.on('data', (chunk: string) => {
+        const lines = (partial + chunk).split('\n');
+        partial = lines.pop()!;
+        lines.forEach(line => writeLine(stream, line));
+      });
+      child[stream]?.on('end', () => {
+        if (partial) {
+          writeLine(stream, partial);
+          partial = '';
+        }
+      });
+    }
+
+    // 'close' fires once the output streams are drained, unlike 'exit'
+    child.on('close', () => {
+      if (this.options.mode === 'buffered' && buffer.length > 0) {
+        process.stdout.write(chalk.bold(`── ${label} `.padEnd(60, '─')) + '\n' + buffer.join('\n') + '\n');
+      }
+      logFile?.end();
+    });
+  }
+}
@@ -0,0 +1,9 @@
+import * as path from 'path';
+
+/**
+ * Converts a path to the portable form stored in shard artifacts:
+ * relative to the project root and using forward slashes.
+ */
+export function toProjectPath(filePath: string, projectRoot: string = process.cwd()): string {
+  return path.relative(projectRoot, path.resolve(projectRoot, filePath)).split(path.sep).join('/');
+}
@@ -0,0 +1,91 @@
+import * as fs from 'fs';
+import { StringDecoder } from 'string_decoder';
+import { TestResultEvent } from './types';
+
+export interface ProgressRecord {
+  event: 'test:result';
+  payload: TestResultEvent;
+}
+
+/**
+ * Appends one record to a shard progress file. Shard processes report
+ * per-file results to the coordinator this way while they run; progress is
+ * best effort and never fails a test run.
+ */
+export function appendProgress(progressFile: string, record: ProgressRecord): void {
+  try {
+    fs.appendFileSync(progressFile, JSON.stringify(record) + '\n');
+  } catch {
+    // Coordinator may have cleaned up its lock directory already
+  }
+}
+
+/**
+ * Follows a JSON-lines progress file written by several shard processes and
+ * hands every complete record to `onRecord`.
+ */
+export class ProgressTail {
+  private offset = 0;
+  private partial = '';
+  private decoder = new StringDecoder('utf8');
+  private timer?: NodeJS.Timeout;
+
+  constructor(
+    private progressFile: string,
+    private onRecord: (record: ProgressRecord) => void,
+    private intervalMs: number = 200
+  ) {}
+
+  start(): void {
+    this.timer = setInterval(() => this.poll(), this.intervalMs);
+    this.timer.unref();
+  }
+
+  /**
+   * Reads whatever was appended since the last poll. Called directly before
+   * a shard is reported complete so its results are delivered first.
+   */
+  poll(): void {
+    let fd: number;
+    try {
+      fd = fs.openSync(this.progressFile, 'r');
+    } catch {
+      return;
+    }
+
+    try {
+      const size = fs.fstatSync(fd).size;
+      if (size <= this.offset) {
+        return;
+      }
+
+      const buffer = Buffer.alloc(size - this.offset);
+      fs.readSync(fd, buffer, 0, buffer.length, this.offset);
+      this.offset = size;
+
+      const lines = (this.partial + this.decoder.write(buffer)).split('\n');
+      this.partial = lines.pop()!;
+
+      for (const line of lines) {
+        if (!line.trim()) {
+          continue;
+        }
+        try {
+          this.onRecord(JSON.parse(line));
+        } catch (error) {
+          console.warn('Could not read shard progress:', error);
+        }
+      }
+    } finally {
+      fs.closeSync(fd);
+    }
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    this.poll();
+  }
+}
@@ -0,0 +1,110 @@
+import { runCLI } from 'jest';
+import type { Config } from '@jest/types';
+import { createCoverageMap } from 'istanbul-lib-coverage';
+import { WorkQueue } from './work-queue';
+import { CoverageCollector } from './coverage-merger';
+import { resolveRunId, shardRunMetadata } from './coverage-artifacts';
+import { isCoverageAttributionLevel } from './coverage-attribution';
+import { TimingCollector } from './timing-history';
+import { TestResultsCollector } from './test-results';
+import { readJestConfig } from './jest-config';
+import type { TestResult } from '@jest/reporters';
+import { TimingSample } from './types';
+
+/**
+ * Long-lived worker used by `jest-shard run --mode queue`. It keeps pulling
+ * batches from the coordinator's queue and runs them in-process with Jest
+ * until the queue is empty, then writes the same per-shard artifacts the
+ * reporter writes in static mode.
+ */
+export async function runWorker(): Promise<number> {
+  const queueDir = process.env.JEST_SHARD_QUEUE_DIR;
+  const workerId = parseInt(process.env.JEST_SHARD_INDEX || '1');
+  const totalWorkers = parseInt(process.env.JEST_TOTAL_SHARDS || '1');
+  const batchSize = parseInt(process.env.JEST_SHARD_QUEUE_BATCH || '1');
+  const shardedCoverageDir = process.env.JEST_SHARD_COVERAGE_DIR || 'coverage-shards';
+
+  if (!queueDir) {
+    console.error('JEST_SHARD_QUEUE_DIR is not set');
+    return 1;
+  }
+
+  const queue = new WorkQueue(queueDir);
+  const coverageMap = createCoverageMap({});
+  const timingSamples: TimingSample[] = [];
+  const testResults: TestResult[] = [];
+  let collectCoverage = false;
+  let lastConfig: Config.GlobalConfig | undefined;
+  let failed = false;
+
+  for (;;) {
+    const batch = await queue.take(workerId, batchSize);
+    if (batch.length === 0) {
+      break;
+    }
+
+    const argv: Config.Argv = {
+      $0: 'jest',
+      _: batch,
+      runTestsByPath: true,
+      coverageThreshold: '{}',
+      config: process.env.JEST_SHARD_JEST_CONFIG
+    };
+
+    const { results, globalConfig } = await runCLI(argv, [process.cwd()]);
+
+    collectCoverage = collectCoverage || globalConfig.collectCoverage;
+    lastConfig = globalConfig;
+    failed = failed || !results.success;
+
+    if (results.coverageMap) {
+      coverageMap.merge(results.coverageMap);
+    }
+
+    for (const testResult of results.testResults) {
+      testResults.push(testResult);
+      timingSamples.push({
+        path: testResult.testFilePath,
+        duration: testResult.perfStats.runtime,
+        status: testResult.numFailingTests > 0 || testResult.testExecError ? 'failed' : 'passed'
+      });
+    }
+  }
+
+  // Left without a batch, the worker still owes the merge a coverage file for its index
+  if (!lastConfig) {
+    lastConfig = readJestConfig(process.cwd(), process.env.JEST_SHARD_JEST_CONFIG)?.globalConfig;
+    collectCoverage = !!lastConfig?.collectCoverage;
+  }
+
+  const shardInfo = { index: workerId, total: totalWorkers };
+
+  if (timingSamples.length > 0) {
+    await new TimingCollector({ shardedTimingDir: shardedCoverageDir }).collectShardTimings(shardInfo, timingSamples);
+  }
+
+  if (testResults.length > 0) {
+    await new TestResultsCollector({ shardedResultsDir: shardedCoverageDir }).collectShardResults(shardInfo, testResults);
+  }
+
+  if (collectCoverage && lastConfig) {
+    const collector = new CoverageCollector({ shardedCoverageDir, rootDir: lastConfig.rootDir });
+    await collector.collectShardCoverage(shardInfo, coverageMap.toJSON(), shardRunMetadata(lastConfig));
+
+    // runCLI drops each test file's coverage once merged, so attribution stops at the worker
+    if (isCoverageAttributionLevel(process.env.JEST_SHARD_ATTRIBUTION)) {
+      await collector.collectShardAttribution(shardInfo, coverageMap.toJSON(), { runId: resolveRunId() });
+    }
+  }
+
+  return failed ? 1 : 0;
+}
+
+if (require.main === module) {
+  runWorker()
+    .then(code => process.exit(code))
+    .catch(error => {
+      console.error('Queue worker failed:', error);
+      process.exit(1);
+    });
+}
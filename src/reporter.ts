@@ -1,4 +1,5 @@
 import type { Config } from '@jest/types';
+import { CoverageReporter } from '@jest/reporters';
 import type {
   AggregatedResult,
   Test,
@@ -7,9 +8,16 @@ import type {
   Reporter,
   ReporterOnStartOptions
 } from '@jest/reporters';
-import { ShardReporterOptions, ShardInfo } from './types';
+import type { CoverageMapData } from 'istanbul-lib-coverage';
+import { CoverageAttributionLevel, ShardReporterOptions, ShardInfo, ShardRunMetadata, TimingSample } from './types';
 import { CoverageCollector } from './coverage-merger';
-import { SmartStrategy } from './sharding-strategy';
+import { ShardArtifactError, formatShardArtifactCheck, shardRunMetadata } from './coverage-artifacts';
+import { TestAttributionRecorder, isCoverageAttributionLevel } from './coverage-attribution';
+import { CoverageThresholdError, formatViolationTable, watermarksFromThreshold } from './coverage-threshold';
+import { TimingCollector } from './timing-history';
+import { TestResultsCollector, summarizeTestResult } from './test-results';
+import { appendProgress } from './progress';
+import { toProjectPath } from './paths';
 import { AutoShardRunner } from './auto-shard';
 import * as fs from 'fs';
 import * as path from 'path';
@@ -20,19 +28,29 @@ export class JestShardReporter implements Reporter {
   private options: ShardReporterOptions;
   private shardInfo: ShardInfo;
   private coverageCollector: CoverageCollector;
+  private coverageReporter?: CoverageReporter;
+  private runMetadata?: ShardRunMetadata;
+  private attribution?: CoverageAttributionLevel;
+  private testAttribution?: TestAttributionRecorder;
   private startTime: number = 0;
-  private shardingStrategy: SmartStrategy;
+  private timingCollector: TimingCollector;
   private testDurations: Map<string, number> = new Map();
+  private timingSamples: TimingSample[] = [];
+  private resultsCollector: TestResultsCollector;
+  private testResults: TestResult[] = [];
   private isAutoShard: boolean = false;
+  private isQueueWorker: boolean = false;
+  private isFileRetry: boolean = false;
+  private isQuarantinePass: boolean = false;
+  private lastError?: Error;
 
   constructor(globalConfig: Config.GlobalConfig, options: ShardReporterOptions = {}) {
     this.globalConfig = globalConfig;
     this.options = {
-      coverageDirectory: process.env.JEST_COVERAGE_DIR || 'coverage',
+      coverageDirectory: process.env.JEST_COVERAGE_DIR || globalConfig.coverageDirectory || 'coverage',
       shardedCoverageDir: process.env.JEST_SHARD_COVERAGE_DIR || 'coverage-shards',
       finalCoverageDir: process.env.JEST_FINAL_COVERAGE_DIR || 'coverage-final',
       verbose: false,
-      reportFormats: ['html', 'text', 'lcov', 'json'],
       cleanupShardFiles: false,
       mergeCoverageOnComplete: true,
       ...options
@@ -40,6 +58,13 @@ export class JestShardReporter implements Reporter {
 
     const hasNativeSharding = globalConfig.shard !== undefined;
 
+    // Queue workers run several Jest invocations and write the shard artifacts themselves
+    this.isQueueWorker = process.env.JEST_SHARD_QUEUE_WORKER === 'true';
+    // Retries of failing files update the shard's artifacts instead of replacing them
+    this.isFileRetry = process.env.JEST_SHARD_RETRY === 'files';
+    // The quarantine pass is informational and must not touch any shard's artifacts
+    this.isQuarantinePass = process.env.JEST_SHARD_QUARANTINE_PASS === 'true';
+
     this.isAutoShard = process.env.JEST_AUTO_SHARD === 'true' && !hasNativeSharding;
     if (hasNativeSharding && globalConfig.shard) {
       this.shardInfo = {
@@ -61,10 +86,46 @@ export class JestShardReporter implements Reporter {
       shardedCoverageDir: this.options.shardedCoverageDir,
       finalCoverageDir: this.options.finalCoverageDir,
       reportFormats: this.options.reportFormats,
-      cleanupShardFiles: this.options.cleanupShardFiles
+      cleanupShardFiles: this.options.cleanupShardFiles,
+      rootDir: globalConfig.rootDir,
+      verbose: this.options.verbose
+    });
+
+    this.timingCollector = new TimingCollector({
+      shardedTimingDir: this.options.shardedCoverageDir
+    });
+
+    this.resultsCollector = new TestResultsCollector({
+      shardedResultsDir: this.options.shardedCoverageDir
     });
 
-    this.shardingStrategy = new SmartStrategy();
+    // Jest runs its own coverage reporter after custom reporters, so the
+    // aggregated results carry no coverage map yet when this reporter
+    // completes. A private instance builds the shard's map the same way,
+    // v8 provider, source maps and untested files included, without writing
+    // any reports of its own.
+    if (globalConfig.collectCoverage && !this.isQueueWorker && !this.isQuarantinePass) {
+      this.coverageReporter = new CoverageReporter({
+        ...globalConfig,
+        coverageReporters: ['none'],
+        coverageThreshold: {}
+      } as Config.GlobalConfig, { firstRun: true, previousSuccess: true });
+
+      const attribution = this.options.coverageAttribution || process.env.JEST_SHARD_ATTRIBUTION;
+      if (isCoverageAttributionLevel(attribution)) {
+        this.attribution = attribution;
+      }
+
+      // Per-test coverage only reaches reporters as Istanbul data with the babel provider
+      if (this.attribution === 'tests' && globalConfig.coverageProvider === 'v8') {
+        this.log('Test file attribution needs the babel coverage provider; recording shard attribution only', true);
+        this.attribution = 'shards';
+      }
+
+      if (this.attribution === 'tests') {
+        this.testAttribution = new TestAttributionRecorder(globalConfig.rootDir);
+      }
+    }
 
     this.ensureDirectories();
   }
@@ -112,11 +173,41 @@ export class JestShardReporter implements Reporter {
     this.testDurations.set(test.path, Date.now());
   }
 
-  onTestResult(test: Test, testResult: TestResult, aggregatedResult: AggregatedResult): void {
+  async onTestResult(test: Test, testResult: TestResult, aggregatedResult: AggregatedResult): Promise<void> {
     const relativePath = path.relative(process.cwd(), test.path);
     const duration = Date.now() - (this.testDurations.get(test.path) || Date.now());
 
-    this.shardingStrategy.updateTestDuration(test.path, duration);
+    this.testResults.push(testResult);
+    this.coverageReporter?.onTestResult(test, testResult);
+    if (this.testAttribution && testResult.coverage) {
+      try {
+        await this.testAttribution.record(test.path, testResult.coverage);
+      } catch (error) {
+        console.warn(chalk.yellow(`  ⚠ Could not attribute coverage to ${relativePath}:`), error);
+      }
+    }
+    this.timingSamples.push({
+      path: test.path,
+      duration,
+      status: testResult.numFailingTests > 0 || testResult.testExecError ? 'failed' : 'passed'
+    });
+
+    // Live progress for the `jest-shard run` coordinator
+    if (process.env.JEST_SHARD_PROGRESS_FILE) {
+      const summary = summarizeTestResult(testResult);
+      appendProgress(process.env.JEST_SHARD_PROGRESS_FILE, {
+        event: 'test:result',
+        payload: {
+          shardId: this.shardInfo.index,
+          path: toProjectPath(test.path),
+          status: summary.status,
+          duration,
+          numPassingTests: summary.numPassingTests,
+          numFailingTests: summary.numFailingTests,
+          numPendingTests: summary.numPendingTests
+        }
+      });
+    }
 
     if (testResult.numFailingTests > 0) {
       console.log(chalk.red(`  ❌ FAIL`) + ` ${relativePath} (${(duration / 1000).toFixed(2)}s)`);
@@ -135,7 +226,7 @@ export class JestShardReporter implements Reporter {
     this.log(`Progress: ${stats}`);
   }
 
-  async onRunComplete(_contexts: Set<TestContext>, results: AggregatedResult): Promise<void> {
+  async onRunComplete(contexts: Set<TestContext>, results: AggregatedResult): Promise<void> {
     const duration = (Date.now() - this.startTime) / 1000;
 
     console.log('\n' + chalk.bold('═'.repeat(60)));
@@ -159,34 +250,116 @@ export class JestShardReporter implements Reporter {
 
     console.log(`  Time:        ${chalk.cyan(`${duration.toFixed(2)}s`)}`);
 
-    if (this.globalConfig.collectCoverage) {
-      await this.handleCoverage();
+    if (this.isQueueWorker) {
+      this.log('Queue worker batch complete, artifacts are written when the queue drains');
+    } else if (this.isQuarantinePass) {
+      this.log('Quarantine pass complete, shard artifacts left untouched');
+    } else {
+      await this.handleTimings();
+      await this.handleResults();
+    }
+
+    if (this.globalConfig.collectCoverage && !this.isQueueWorker && !this.isQuarantinePass) {
+      await this.handleCoverage(contexts, results);
     }
 
     console.log(chalk.bold('═'.repeat(60)) + '\n');
   }
 
-  private async handleCoverage(): Promise<void> {
-    const coverageFile = path.join(this.options.coverageDirectory!, 'coverage-final.json');
+  private async handleTimings(): Promise<void> {
+    if (this.timingSamples.length === 0) {
+      return;
+    }
 
+    try {
+      const artifactFile = await this.timingCollector.collectShardTimings(this.shardInfo, this.timingSamples, {
+        merge: this.isFileRetry
+      });
+      this.log(`Timing history for ${this.timingSamples.length} file(s) saved to ${artifactFile}`);
+    } catch (error) {
+      console.warn(chalk.yellow('  ⚠ Could not save timing history:'), error);
+    }
+  }
+
+  private async handleResults(): Promise<void> {
+    try {
+      const artifactFile = await this.resultsCollector.collectShardResults(this.shardInfo, this.testResults, {
+        merge: this.isFileRetry
+      });
+      this.log(`Test results saved to ${artifactFile}`);
+    } catch (error) {
+      console.warn(chalk.yellow('  ⚠ Could not save test results:'), error);
+    }
+  }
+
+  /**
+   * The shard's coverage, from the aggregated results when Jest already put
+   * it there, else from the private coverage reporter. `coverage-final.json`
+   * in the coverage directory is a last resort: shards running side by side
+   * share that directory, and Jest writes it only after this reporter ran.
+   */
+  private async readShardCoverage(contexts: Set<TestContext>, results: AggregatedResult): Promise<CoverageMapData | undefined> {
+    if (results.coverageMap) {
+      return results.coverageMap.toJSON();
+    }
+
+    if (this.coverageReporter) {
+      const shardResults = { ...results };
+      await this.coverageReporter.onRunComplete(contexts, shardResults);
+      if (shardResults.coverageMap) {
+        return shardResults.coverageMap.toJSON();
+      }
+    }
+
+    const coverageFile = path.join(this.options.coverageDirectory!, 'coverage-final.json');
     if (fs.existsSync(coverageFile)) {
-      try {
-        const coverageData = JSON.parse(fs.readFileSync(coverageFile, 'utf8'));
+      this.log(`Reading coverage from ${coverageFile}`);
+      return JSON.parse(fs.readFileSync(coverageFile, 'utf8'));
+    }
+
+    return undefined;
+  }
+
+  private async handleCoverage(contexts: Set<TestContext>, results: AggregatedResult): Promise<void> {
+    let coverageData: CoverageMapData | undefined;
+    try {
+      coverageData = await this.readShardCoverage(contexts, results);
+    } catch (error) {
+      console.error(chalk.red(`  ✗ Error reading coverage:`), error);
+      return;
+    }
 
-        await this.coverageCollector.collectShardCoverage(this.shardInfo.index, coverageData);
+    if (coverageData) {
+      try {
+        this.runMetadata = this.runMetadata || shardRunMetadata(this.globalConfig);
+        await this.coverageCollector.collectShardCoverage(this.shardInfo, coverageData, this.runMetadata);
         console.log(chalk.green(`  ✓ Coverage saved for shard ${this.shardInfo.index}`));
 
+        if (this.attribution) {
+          await this.coverageCollector.collectShardAttribution(this.shardInfo, coverageData, {
+            tests: this.testAttribution,
+            runId: this.runMetadata.runId
+          });
+          this.log(`Coverage attribution (${this.attribution}) saved for shard ${this.shardInfo.index}`);
+        }
+
         if (this.options.mergeCoverageOnComplete) {
           if (this.isAutoShard) {
-            const isComplete = await this.coverageCollector.isAllShardsComplete(this.shardInfo.total);
+            const check = await this.coverageCollector.checkShards({
+              runId: this.runMetadata.runId,
+              total: this.shardInfo.total
+            });
 
-            if (isComplete || process.env.JEST_MERGE_COVERAGE === 'true') {
+            if (check.missing.length === 0) {
               await this.mergeCoverageReports();
+            } else if (process.env.JEST_MERGE_COVERAGE === 'true') {
+              await this.mergeCoverageReports(true);
             } else {
-              console.log(chalk.yellow(`  ⏳ Waiting for ${this.shardInfo.total - await this.coverageCollector.getShardCount()} more shard(s) to complete...`));
+              console.log(chalk.yellow(`  ⏳ Waiting for shard(s) ${check.missing.join(', ')} to complete...`));
             }
           } else if (process.env.JEST_MERGE_COVERAGE === 'true') {
-            await this.mergeCoverageReports();
+            // Merging before every shard is in is deliberate here
+            await this.mergeCoverageReports(true);
           } else {
             console.log(chalk.blue(`  ℹ Coverage saved for shard ${this.shardInfo.index}. Use 'jest-shard merge' to combine all shards.`));
           }
@@ -195,18 +368,23 @@ export class JestShardReporter implements Reporter {
         console.error(chalk.red(`  ✗ Error handling coverage:`), error);
       }
     } else {
-      this.log(`No coverage file found for shard ${this.shardInfo.index}`, true);
+      this.log(`No coverage found for shard ${this.shardInfo.index}`, true);
     }
   }
 
 
-  private async mergeCoverageReports(): Promise<void> {
+  private async mergeCoverageReports(allowMismatchedShards: boolean = false): Promise<void> {
     console.log('\n' + chalk.bold.blue('📊 Merging coverage from all shards...'));
 
     try {
       const coverageMap = await this.coverageCollector.mergeCoverage({
-        reportFormats: this.options.reportFormats,
-        cleanupShardFiles: this.options.cleanupShardFiles
+        reportFormats: this.options.reportFormats || this.globalConfig.coverageReporters,
+        watermarks: watermarksFromThreshold(this.globalConfig.coverageThreshold),
+        cleanupShardFiles: this.options.cleanupShardFiles,
+        coverageThreshold: this.globalConfig.coverageThreshold,
+        collectCoverageFrom: this.globalConfig.collectCoverageFrom,
+        runId: this.runMetadata?.runId,
+        allowMismatchedShards
       });
 
       const data = coverageMap.getCoverageSummary().toJSON();
@@ -223,7 +401,17 @@ export class JestShardReporter implements Reporter {
       const shardCount = await this.coverageCollector.getShardCount();
       console.log(chalk.dim(`   Processed ${shardCount} shard(s)`));
     } catch (error) {
-      console.error(chalk.red('✗ Error merging coverage:'), error);
+      if (error instanceof CoverageThresholdError) {
+        console.error(chalk.red('\n✗ Merged coverage does not meet the configured thresholds:\n'));
+        console.error(formatViolationTable(error.violations));
+        this.lastError = error;
+      } else if (error instanceof ShardArtifactError) {
+        console.error(chalk.red('\n✗ Shard coverage files do not add up to one run:\n'));
+        console.error(formatShardArtifactCheck(error.check));
+        this.lastError = error;
+      } else {
+        console.error(chalk.red('✗ Error merging coverage:'), error);
+      }
     }
   }
 
@@ -236,6 +424,6 @@ export class JestShardReporter implements Reporter {
   }
 
   getLastError(): Error | undefined {
-    return undefined;
+    return this.lastError;
   }
 }
\ No newline at end of file
@@ -0,0 +1,93 @@
+import { toProjectPath } from './paths';
+import { ShardCountPrediction, ShardCountRecommendation, TimingHistory } from './types';
+
+/** Assumed duration of a test file when the history has nothing to go on */
+export const DEFAULT_FILE_DURATION = 1000;
+/** Assumed cost of starting a shard: spawning Jest, transforms, worker startup */
+export const DEFAULT_SHARD_OVERHEAD = 2000;
+
+/**
+ * Greedily hands each item (longest first) to the least loaded of `bins`
+ * and returns the resulting loads.
+ */
+function pack(durations: number[], bins: number): number[] {
+  const loads = new Array<number>(bins).fill(0);
+
+  for (const duration of [...durations].sort((a, b) => b - a)) {
+    let least = 0;
+    for (let i = 1; i < bins; i++) {
+      if (loads[i] < loads[least]) {
+        least = i;
+      }
+    }
+    loads[least] += duration;
+  }
+
+  return loads;
+}
+
+/**
+ * Expected duration of every test file, from the timing history. Files
+ * without history count as the average recorded file.
+ */
+export function expectedDurations(
+  testPaths: string[],
+  history: TimingHistory,
+  projectRoot: string = process.cwd()
+): number[] {
+  const recorded = Object.values(history.tests).map(entry => entry.duration);
+  const fallback = recorded.length > 0
+    ? recorded.reduce((sum, duration) => sum + duration, 0) / recorded.length
+    : DEFAULT_FILE_DURATION;
+
+  return testPaths.map(testPath => history.tests[toProjectPath(testPath, projectRoot)]?.duration ?? fallback);
+}
+
+/**
+ * Wall time of a run with `shards` shards: files are balanced over the
+ * shards, each shard pays the startup overhead, and at most `maxParallel`
+ * shards run at once.
+ */
+export function predictWallTime(durations: number[], shards: number, maxParallel: number, shardOverhead: number): number {
+  const shardTimes = pack(durations, shards).map(load => load + shardOverhead);
+  return Math.max(...pack(shardTimes, Math.min(shards, maxParallel)));
+}
+
+/**
+ * Picks a shard count from recorded durations. With a target, it is the
+ * fewest shards predicted to finish in time; otherwise (or when no count
+ * meets the target) the fewest shards within 5% of the fastest prediction,
+ * since extra shards past that point mostly add startup overhead.
+ */
+export function recommendShardCount(options: {
+  durations: number[];
+  maxParallel: number;
+  targetDuration?: number;
+  shardOverhead?: number;
+  maxShards?: number;
+}): ShardCountRecommendation {
+  const shardOverhead = options.shardOverhead ?? DEFAULT_SHARD_OVERHEAD;
+  const maxShards = Math.max(1, Math.min(options.maxShards ?? 64, options.durations.length));
+
+  const predictions: ShardCountPrediction[] = [];
+  for (let shards = 1; shards <= maxShards; shards++) {
+    predictions.push({
+      shards,
+      wallTime: predictWallTime(options.durations, shards, options.maxParallel, shardOverhead)
+    });
+  }
+
+  const fastest = Math.min(...predictions.map(prediction => prediction.wallTime));
+  const withinTarget = options.targetDuration !== undefined
+    ? predictions.find(prediction => prediction.wallTime <= options.targetDuration!)
+    : undefined;
+  const chosen = withinTarget || predictions.find(prediction => prediction.wallTime <= fastest * 1.05)!;
+
+  return {
+    shards: chosen.shards,
+    predictedWallTime: chosen.wallTime,
+    targetDuration: options.targetDuration,
+    meetsTarget: options.targetDuration === undefined || chosen.wallTime <= options.targetDuration,
+    predictions
+  };
+}
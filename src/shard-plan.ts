@@ -0,0 +1,120 @@
+import * as fs from 'fs';
+import * as crypto from 'crypto';
+import { createShardingStrategy } from './sharding-strategy';
+import { loadTimingHistory } from './timing-history';
+import { toProjectPath } from './paths';
+import { ShardPlan } from './types';
+
+export const SHARD_PLAN_SCHEMA_VERSION = 1;
+
+export class ShardPlanError extends Error {
+  constructor(
+    message: string,
+    public readonly added: string[] = [],
+    public readonly removed: string[] = []
+  ) {
+    super(message);
+    this.name = 'ShardPlanError';
+  }
+}
+
+/**
+ * Fingerprint of a test list, independent of order and of where the project
+ * is checked out.
+ */
+export function hashTestList(testPaths: string[], projectRoot: string = process.cwd()): string {
+  const relativePaths = testPaths.map(testPath => toProjectPath(testPath, projectRoot)).sort();
+  return crypto.createHash('sha256').update(relativePaths.join('\n')).digest('hex');
+}
+
+/**
+ * Splits the test list once with one of the sharding strategies and records
+ * the result, so every CI job runs exactly the files assigned to it.
+ */
+export function createShardPlan(options: {
+  testPaths: string[];
+  totalShards: number;
+  strategy?: string;
+  historyFile?: string;
+  projectRoot?: string;
+}): ShardPlan {
+  const projectRoot = options.projectRoot || process.cwd();
+  const strategyName = options.strategy || 'smart';
+  const historyFile = options.historyFile || '.jest-shard-history.json';
+  const strategy = createShardingStrategy(strategyName, historyFile);
+  const history = loadTimingHistory(historyFile);
+
+  // Same input order the test sequencer uses
+  const testPaths = options.testPaths.map(testPath => toProjectPath(testPath, projectRoot)).sort();
+
+  const shards = Array.from({ length: options.totalShards }, (_, i) => {
+    const files = strategy
+      .distributeTests(testPaths, { index: i + 1, total: options.totalShards })
+      .map(testPath => ({ path: testPath, expectedDuration: history.tests[testPath]?.duration }));
+
+    return {
+      index: i + 1,
+      expectedDuration: files.reduce((sum, file) => sum + (file.expectedDuration || 0), 0),
+      files
+    };
+  });
+
+  return {
+    schemaVersion: SHARD_PLAN_SCHEMA_VERSION,
+    createdAt: new Date().toISOString(),
+    strategy: strategyName,
+    totalShards: options.totalShards,
+    testListHash: hashTestList(testPaths, projectRoot),
+    testCount: testPaths.length,
+    shards
+  };
+}
+
+export function readShardPlan(planFile: string): ShardPlan {
+  let plan: ShardPlan;
+
+  try {
+    plan = JSON.parse(fs.readFileSync(planFile, 'utf8'));
+  } catch (error) {
+    throw new ShardPlanError(`Could not read shard plan ${planFile}: ${(error as Error).message}`);
+  }
+
+  if (plan.schemaVersion !== SHARD_PLAN_SCHEMA_VERSION || !Array.isArray(plan.shards)) {
+    throw new ShardPlanError(
+      `Shard plan ${planFile} has unsupported schema version ${plan.schemaVersion}; ` +
+      `expected ${SHARD_PLAN_SCHEMA_VERSION}. Re-create it with this version of jest-shard.`
+    );
+  }
+
+  return plan;
+}
+
+/**
+ * Throws unless the plan was made from exactly these test files, listing
+ * what changed since.
+ */
+export function verifyShardPlan(plan: ShardPlan, testPaths: string[], projectRoot: string = process.cwd()): void {
+  if (hashTestList(testPaths, projectRoot) === plan.testListHash) {
+    return;
+  }
+
+  const current = new Set(testPaths.map(testPath => toProjectPath(testPath, projectRoot)));
+  const planned = new Set(plan.shards.flatMap(shard => shard.files.map(file => file.path)));
+  const added = [...current].filter(file => !planned.has(file)).sort();
+  const removed = [...planned].filter(file => !current.has(file)).sort();
+
+  const describe = (label: string, files: string[]) => files.length === 0
+    ? []
+    : [`  ${label} (${files.length}):`, ...files.slice(0, 10).map(file => `    ${file}`), ...(files.length > 10 ? ['    ...'] : [])];
+
+  throw new ShardPlanError(
+    [
+      `Shard plan is stale: the test list no longer matches the one it was created from (${plan.createdAt}).`,
+      ...describe('Not in the plan', added),
+      ...describe('No longer found', removed),
+      'Re-create the plan with `jest-shard plan`.'
+    ].join('\n'),
+    added,
+    removed
+  );
+}
@@ -0,0 +1,73 @@
+import { ShardResultsArtifact, TestListCheck } from './types';
+
+export class TestListMismatchError extends Error {
+  constructor(public readonly check: TestListCheck) {
+    super(`Shards did not run the expected test files:\n${formatTestListCheck(check)}`);
+    this.name = 'TestListMismatchError';
+  }
+}
+
+/**
+ * Compares the files the shards actually ran (from their results artifacts)
+ * with the files they were expected to run between them. Every expected
+ * file must have run in exactly one shard.
+ */
+export function checkShardTestFiles(artifacts: ShardResultsArtifact[], expected: string[]): TestListCheck {
+  const ranIn = new Map<string, number[]>();
+
+  for (const artifact of artifacts) {
+    for (const file of artifact.files) {
+      ranIn.set(file.path, [...(ranIn.get(file.path) || []), artifact.shard.index]);
+    }
+  }
+
+  const expectedSet = new Set(expected);
+
+  return {
+    expected: expectedSet.size,
+    ran: ranIn.size,
+    missing: [...expectedSet].filter(file => !ranIn.has(file)).sort(),
+    duplicated: [...ranIn.entries()]
+      .filter(([, shards]) => shards.length > 1)
+      .map(([file, shards]) => ({ path: file, shards: shards.sort((a, b) => a - b) }))
+      .sort((a, b) => a.path.localeCompare(b.path)),
+    unexpected: [...ranIn.keys()].filter(file => !expectedSet.has(file)).sort()
+  };
+}
+
+export function isTestListComplete(check: TestListCheck): boolean {
+  return check.missing.length === 0 && check.duplicated.length === 0 && check.unexpected.length === 0;
+}
+
+/**
+ * Verifies the shards' files and throws a `TestListMismatchError` listing
+ * what is missing, duplicated or unexpected.
+ */
+export function verifyShardTestFiles(artifacts: ShardResultsArtifact[], expected: string[]): TestListCheck {
+  const check = checkShardTestFiles(artifacts, expected);
+  if (!isTestListComplete(check)) {
+    throw new TestListMismatchError(check);
+  }
+  return check;
+}
+
+export function formatTestListCheck(check: TestListCheck): string {
+  const lines = [`  Expected ${check.expected} test file(s), shards ran ${check.ran}`];
+
+  if (check.missing.length > 0) {
+    lines.push(`  - Missing from every shard (${check.missing.length}):`);
+    lines.push(...check.missing.map(file => `      ${file}`));
+  }
+
+  if (check.duplicated.length > 0) {
+    lines.push(`  + Ran in more than one shard (${check.duplicated.length}):`);
+    lines.push(...check.duplicated.map(file => `      ${file.path} (shards ${file.shards.join(', ')})`));
+  }
+
+  if (check.unexpected.length > 0) {
+    lines.push(`  ? Ran but not expected (${check.unexpected.length}):`);
+    lines.push(...check.unexpected.map(file => `      ${file}`));
+  }
+
+  return lines.join('\n');
+}
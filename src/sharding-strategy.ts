@@ -1,6 +1,9 @@
 import { TestShardingStrategy, ShardInfo } from './types';
 import * as crypto from 'crypto';
 import * as fs from 'fs';
+import * as nodePath from 'path';
+import { TIMING_SCHEMA_VERSION, getJestVersion, loadTimingHistory, mergeTimingArtifacts } from './timing-history';
+import { toProjectPath } from './paths';
 
 export class RoundRobinStrategy implements TestShardingStrategy {
   distributeTests(testPaths: string[], shardInfo: ShardInfo): string[] {
@@ -66,7 +69,7 @@ export class SmartStrategy implements TestShardingStrategy {
   distributeTests(testPaths: string[], shardInfo: ShardInfo): string[] {
     const testsWithDuration = testPaths.map(path => ({
       path,
-      duration: this.testHistory.get(path) || 1000
+      duration: this.testHistory.get(nodePath.resolve(path)) || 1000
     }));
 
     testsWithDuration.sort((a, b) => b.duration - a.duration);
@@ -87,28 +90,69 @@ export class SmartStrategy implements TestShardingStrategy {
     return shards[shardInfo.index - 1].paths;
   }
 
+  /**
+   * @deprecated Shards record their durations and `jest-shard run` merges
+   * them into the history. This folds in one passing run the same way.
+   */
   updateTestDuration(testPath: string, duration: number): void {
-    this.testHistory.set(testPath, duration);
-    this.saveHistory();
+    try {
+      const history = mergeTimingArtifacts(loadTimingHistory(this.historyFile), [{
+        schemaVersion: TIMING_SCHEMA_VERSION,
+        jestVersion: getJestVersion(),
+        timestamp: new Date().toISOString(),
+        shard: { index: 1, total: 1 },
+        tests: [{ path: toProjectPath(testPath), duration, status: 'passed' }]
+      }]);
+      this.testHistory.set(nodePath.resolve(testPath), history.tests[toProjectPath(testPath)].duration);
+
+      const tmpFile = `${this.historyFile}.${process.pid}.tmp`;
+      fs.writeFileSync(tmpFile, JSON.stringify(history, null, 2));
+      fs.renameSync(tmpFile, this.historyFile);
+    } catch (error) {
+      console.warn('Could not save test history:', error);
+    }
   }
 
   private loadHistory(): void {
     try {
       if (fs.existsSync(this.historyFile)) {
         const data = JSON.parse(fs.readFileSync(this.historyFile, 'utf8'));
-        this.testHistory = new Map(Object.entries(data));
+
+        if (typeof data.schemaVersion === 'number' && data.tests) {
+          // Versioned history stores paths relative to the project root
+          this.testHistory = new Map(
+            Object.entries(data.tests as Record<string, { duration: number }>)
+              .map(([testPath, entry]) => [nodePath.resolve(testPath), entry.duration])
+          );
+        } else {
+          this.testHistory = new Map(Object.entries(data));
+        }
       }
     } catch (error) {
       console.warn('Could not load test history:', error);
     }
   }
+}
 
-  private saveHistory(): void {
-    try {
-      const data = Object.fromEntries(this.testHistory);
-      fs.writeFileSync(this.historyFile, JSON.stringify(data, null, 2));
-    } catch (error) {
-      console.warn('Could not save test history:', error);
-    }
+export const SHARDING_STRATEGIES = ['round-robin', 'hash', 'file-size', 'smart'] as const;
+
+export type ShardingStrategyName = typeof SHARDING_STRATEGIES[number];
+
+export function isShardingStrategyName(name: string): name is ShardingStrategyName {
+  return (SHARDING_STRATEGIES as readonly string[]).includes(name);
+}
+
+export function createShardingStrategy(name: string, historyFile?: string): TestShardingStrategy {
+  switch (name) {
+    case 'round-robin':
+      return new RoundRobinStrategy();
+    case 'hash':
+      return new HashBasedStrategy();
+    case 'file-size':
+      return new FileSizeStrategy();
+    case 'smart':
+      return new SmartStrategy(historyFile);
+    default:
+      throw new Error(`Unknown sharding strategy "${name}". Expected one of: ${SHARDING_STRATEGIES.join(', ')}`);
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,261 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { glob } from 'glob';
+import type { TestResult } from '@jest/reporters';
+import {
+  MergedTestResults,
+  ResultsReportOptions,
+  ShardInfo,
+  ShardResultsArtifact,
+  TestFileSummary
+} from './types';
+import { toProjectPath } from './paths';
+
+export const RESULTS_SCHEMA_VERSION = 1;
+
+const ANSI_PATTERN = /\u001b\[[0-9;]*m/g;
+
+export function stripAnsi(text: string): string {
+  return text.replace(ANSI_PATTERN, '');
+}
+
+function escapeXml(text: string): string {
+  return stripAnsi(text)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // XML 1.0 does not allow most control characters, even escaped
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '');
+}
+
+export function summarizeTestResult(testResult: TestResult): TestFileSummary {
+  const failed = testResult.numFailingTests > 0 || !!testResult.testExecError;
+
+  return {
+    path: toProjectPath(testResult.testFilePath),
+    status: failed ? 'failed' : testResult.skipped ? 'skipped' : 'passed',
+    duration: testResult.perfStats.runtime,
+    numPassingTests: testResult.numPassingTests,
+    numFailingTests: testResult.numFailingTests,
+    numPendingTests: testResult.numPendingTests,
+    failureMessage: testResult.failureMessage ? stripAnsi(testResult.failureMessage) : undefined,
+    testCases: testResult.testResults.map(assertion => ({
+      title: assertion.title,
+      fullName: assertion.fullName,
+      status: assertion.status,
+      duration: assertion.duration || 0,
+      failureMessages: assertion.failureMessages.map(stripAnsi)
+    }))
+  };
+}
+
+export function mergeShardResults(artifacts: ShardResultsArtifact[]): MergedTestResults {
+  const merged: MergedTestResults = {
+    generatedAt: new Date().toISOString(),
+    totals: { testFiles: 0, tests: 0, passed: 0, failed: 0, pending: 0, duration: 0 },
+    shards: [],
+    files: [],
+    failures: []
+  };
+
+  for (const artifact of [...artifacts].sort((a, b) => a.shard.index - b.shard.index)) {
+    const shardDuration = artifact.files.reduce((sum, file) => sum + file.duration, 0);
+
+    merged.shards.push({
+      index: artifact.shard.index,
+      total: artifact.shard.total,
+      files: artifact.files.map(file => file.path),
+      duration: shardDuration
+    });
+
+    for (const file of artifact.files) {
+      merged.files.push({ ...file, shard: artifact.shard.index });
+
+      merged.totals.testFiles++;
+      merged.totals.tests += file.testCases.length;
+      merged.totals.passed += file.numPassingTests;
+      merged.totals.failed += file.numFailingTests;
+      merged.totals.pending += file.numPendingTests;
+      merged.totals.duration += file.duration;
+
+      const failedCases = file.testCases.filter(testCase => testCase.status === 'failed');
+
+      for (const testCase of failedCases) {
+        merged.failures.push({
+          file: file.path,
+          test: testCase.fullName,
+          shard: artifact.shard.index,
+          message: testCase.failureMessages.join('\n')
+        });
+      }
+
+      // Suites that fail to load have no test cases to blame
+      if (file.status === 'failed' && failedCases.length === 0) {
+        merged.failures.push({
+          file: file.path,
+          test: file.path,
+          shard: artifact.shard.index,
+          message: file.failureMessage || 'Test suite failed to run'
+        });
+      }
+    }
+  }
+
+  return merged;
+}
+
+export function toJUnitXml(results: MergedTestResults): string {
+  const seconds = (ms: number) => (ms / 1000).toFixed(3);
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="jest tests" tests="${results.totals.tests}" failures="${results.failures.length}" ` +
+      `time="${seconds(results.totals.duration)}">`
+  ];
+
+  for (const file of results.files) {
+    const skipped = file.testCases.filter(testCase => testCase.status !== 'passed' && testCase.status !== 'failed');
+    const failures = file.testCases.filter(testCase => testCase.status === 'failed');
+    const suiteError = file.status === 'failed' && failures.length === 0;
+
+    lines.push(
+      `  <testsuite name="${escapeXml(file.path)}" tests="${file.testCases.length}" ` +
+        `failures="${failures.length}" errors="${suiteError ? 1 : 0}" skipped="${skipped.length}" ` +
+        `time="${seconds(file.duration)}">`,
+      '    <properties>',
+      `      <property name="shard" value="${file.shard}"/>`,
+      '    </properties>'
+    );
+
+    for (const testCase of file.testCases) {
+      const open = `    <testcase classname="${escapeXml(file.path)}" name="${escapeXml(testCase.fullName)}" ` +
+        `time="${seconds(testCase.duration)}"`;
+
+      if (testCase.status === 'failed') {
+        const message = testCase.failureMessages.join('\n');
+        lines.push(
+          `${open}>`,
+          `      <failure message="${escapeXml(message.split('\n')[0] || 'Test failed')}">${escapeXml(message)}</failure>`,
+          '    </testcase>'
+        );
+      } else if (testCase.status !== 'passed') {
+        lines.push(`${open}>`, '      <skipped/>', '    </testcase>');
+      } else {
+        lines.push(`${open}/>`);
+      }
+    }
+
+    if (suiteError) {
+      lines.push(
+        `    <testcase classname="${escapeXml(file.path)}" name="${escapeXml(file.path)}" time="0">`,
+        `      <error message="Test suite failed to run">${escapeXml(file.failureMessage || '')}</error>`,
+        '    </testcase>'
+      );
+    }
+
+    lines.push('  </testsuite>');
+  }
+
+  lines.push('</testsuites>');
+  return lines.join('\n') + '\n';
+}
+
+export class TestResultsCollector {
+  private shardedResultsDir: string;
+  private outputDir: string;
+
+  constructor(options: ResultsReportOptions = {}) {
+    this.shardedResultsDir = options.shardedResultsDir || 'coverage-shards';
+    this.outputDir = options.outputDir || 'test-results';
+  }
+
+  /**
+   * Writes the shard's results. With `merge`, entries for the files that were
+   * just run replace those already recorded for the shard, which is how a
+   * retry of only the failing files updates the original artifact.
+   */
+  async collectShardResults(
+    shardInfo: ShardInfo,
+    testResults: TestResult[],
+    options: { merge?: boolean } = {}
+  ): Promise<string> {
+    this.ensureDirectory(this.shardedResultsDir);
+
+    let files = testResults.map(summarizeTestResult);
+
+    if (options.merge) {
+      const previous = await this.readShardResult(shardInfo.index);
+      if (previous) {
+        const rerun = new Set(files.map(file => file.path));
+        files = [...previous.files.filter(file => !rerun.has(file.path)), ...files];
+      }
+    }
+
+    const artifact: ShardResultsArtifact = {
+      schemaVersion: RESULTS_SCHEMA_VERSION,
+      timestamp: new Date().toISOString(),
+      shard: shardInfo,
+      files
+    };
+
+    const artifactFile = path.join(this.shardedResultsDir, `results-shard-${shardInfo.index}.json`);
+    await fs.promises.writeFile(artifactFile, JSON.stringify(artifact, null, 2));
+
+    return artifactFile;
+  }
+
+  async readShardResult(shardIndex: number): Promise<ShardResultsArtifact | null> {
+    const artifactFile = path.join(this.shardedResultsDir, `results-shard-${shardIndex}.json`);
+
+    try {
+      const artifact = JSON.parse(await fs.promises.readFile(artifactFile, 'utf8'));
+      return artifact.schemaVersion === RESULTS_SCHEMA_VERSION ? artifact : null;
+    } catch {
+      return null;
+    }
+  }
+
+  async readShardResults(): Promise<ShardResultsArtifact[]> {
+    const files = await glob(path.join(this.shardedResultsDir, 'results-shard-*.json'));
+    const artifacts: ShardResultsArtifact[] = [];
+
+    for (const file of files.sort()) {
+      try {
+        const artifact = JSON.parse(await fs.promises.readFile(file, 'utf8'));
+
+        if (artifact.schemaVersion !== RESULTS_SCHEMA_VERSION) {
+          console.warn(`Skipping ${file}: unsupported results schema version ${artifact.schemaVersion}`);
+          continue;
+        }
+
+        artifacts.push(artifact);
+      } catch (error) {
+        console.warn(`Error reading ${file}:`, error);
+      }
+    }
+
+    return artifacts;
+  }
+
+  async generateReport(): Promise<MergedTestResults> {
+    const artifacts = await this.readShardResults();
+
+    if (artifacts.length === 0) {
+      throw new Error('No shard results files found to report');
+    }
+
+    const merged = mergeShardResults(artifacts);
+
+    this.ensureDirectory(this.outputDir);
+    await fs.promises.writeFile(path.join(this.outputDir, 'junit.xml'), toJUnitXml(merged));
+    await fs.promises.writeFile(path.join(this.outputDir, 'results.json'), JSON.stringify(merged, null, 2));
+
+    return merged;
+  }
+
+  private ensureDirectory(dir: string): void {
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+  }
+}
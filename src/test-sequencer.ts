@@ -0,0 +1,65 @@
+import Sequencer from '@jest/test-sequencer';
+import type { Test } from '@jest/reporters';
+import { createShardingStrategy } from './sharding-strategy';
+import { isQuarantined, loadQuarantineList } from './flaky-tests';
+import { ShardPlanError, readShardPlan, verifyShardPlan } from './shard-plan';
+import { toProjectPath } from './paths';
+
+/**
+ * Jest test sequencer that delegates `--shard` selection to one of the
+ * bundled sharding strategies. The strategy is chosen with the
+ * `JEST_SHARD_STRATEGY` environment variable (default: `smart`). Files listed
+ * in `JEST_SHARD_QUARANTINE_FILE` are left out of every shard. With
+ * `JEST_SHARD_PLAN`, the files come from a plan made by `jest-shard plan`
+ * instead, and the run fails if the test list has changed since.
+ *
+ * Use it directly from a Jest config with
+ * `testSequencer: 'jest-auto-shard/dist/test-sequencer'`.
+ */
+export default class ShardingTestSequencer extends Sequencer {
+  shard(tests: Array<Test>, options: { shardIndex: number; shardCount: number }): Array<Test> {
+    if (process.env.JEST_SHARD_PLAN) {
+      return this.shardFromPlan(process.env.JEST_SHARD_PLAN, tests, options);
+    }
+
+    const strategy = createShardingStrategy(
+      process.env.JEST_SHARD_STRATEGY || 'smart',
+      process.env.JEST_SHARD_HISTORY_FILE
+    );
+
+    // Quarantined files run in a separate, non-blocking pass
+    const quarantined = process.env.JEST_SHARD_QUARANTINE_FILE
+      ? loadQuarantineList(process.env.JEST_SHARD_QUARANTINE_FILE)
+      : [];
+    const candidates = tests.filter(test => !isQuarantined(test.path, quarantined));
+
+    // Project-relative, so jobs checked out at different paths split the same way
+    const projectPath = (test: Test) => toProjectPath(test.path, test.context?.config?.rootDir);
+
+    // Every shard process must see the same input order for the split to be consistent
+    const testPaths = candidates.map(projectPath).sort();
+    const selected = new Set(strategy.distributeTests(testPaths, {
+      index: options.shardIndex,
+      total: options.shardCount
+    }));
+
+    return candidates.filter(test => selected.has(projectPath(test)));
+  }
+
+  private shardFromPlan(planFile: string, tests: Array<Test>, options: { shardIndex: number; shardCount: number }): Array<Test> {
+    const plan = readShardPlan(planFile);
+
+    if (plan.totalShards !== options.shardCount) {
+      throw new ShardPlanError(
+        `Shard plan ${planFile} has ${plan.totalShards} shards, but shard ${options.shardIndex}/${options.shardCount} was requested`
+      );
+    }
+
+    verifyShardPlan(plan, tests.map(test => test.path));
+
+    const assigned = new Set(plan.shards[options.shardIndex - 1].files.map(file => file.path));
+    return tests.filter(test => assigned.has(toProjectPath(test.path)));
+  }
+}
+
+export { ShardingTestSequencer };
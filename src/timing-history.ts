@@ -0,0 +1,209 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { glob } from 'glob';
+import {
+  ShardInfo,
+  ShardTimingArtifact,
+  TimingHistory,
+  TimingHistoryOptions,
+  TimingSample
+} from './types';
+import { toProjectPath } from './paths';
+
+export const TIMING_SCHEMA_VERSION = 1;
+
+const DEFAULT_SMOOTHING = 0.3;
+
+export function getJestVersion(projectRoot: string = process.cwd()): string {
+  try {
+    const pkgPath = require.resolve('jest/package.json', { paths: [projectRoot] });
+    return JSON.parse(fs.readFileSync(pkgPath, 'utf8')).version;
+  } catch {
+    return 'unknown';
+  }
+}
+
+/**
+ * Reads a history file, upgrading the legacy flat `{ [path]: duration }`
+ * format written by earlier versions.
+ */
+export function loadTimingHistory(historyFile: string): TimingHistory {
+  const empty: TimingHistory = { schemaVersion: TIMING_SCHEMA_VERSION, updatedAt: new Date(0).toISOString(), tests: {} };
+
+  if (!fs.existsSync(historyFile)) {
+    return empty;
+  }
+
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(fs.readFileSync(historyFile, 'utf8'));
+    if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+      throw new Error('not a JSON object');
+    }
+  } catch (error) {
+    // Only the estimates are lost; the next merge writes a fresh history
+    console.warn(`Could not load timing history ${historyFile}, starting without it:`, error);
+    return empty;
+  }
+
+  if (typeof data.schemaVersion === 'number') {
+    if (data.schemaVersion > TIMING_SCHEMA_VERSION) {
+      throw new Error(`Timing history ${historyFile} has unsupported schema version ${data.schemaVersion}`);
+    }
+    return data as unknown as TimingHistory;
+  }
+
+  for (const [testPath, duration] of Object.entries(data)) {
+    if (typeof duration === 'number') {
+      empty.tests[toProjectPath(testPath)] = {
+        duration,
+        samples: 1,
+        lastStatus: 'passed',
+        updatedAt: empty.updatedAt
+      };
+    }
+  }
+
+  return empty;
+}
+
+/**
+ * Folds shard artifacts into the history using an exponential moving average,
+ * oldest artifact first. Failed runs only seed files without an estimate, since
+ * a failure often aborts the file early and under-reports its duration.
+ */
+export function mergeTimingArtifacts(
+  history: TimingHistory,
+  artifacts: ShardTimingArtifact[],
+  smoothing: number = DEFAULT_SMOOTHING
+): TimingHistory {
+  const tests = { ...history.tests };
+  const ordered = [...artifacts].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+
+  for (const artifact of ordered) {
+    for (const sample of artifact.tests) {
+      const previous = tests[sample.path];
+
+      if (!previous) {
+        tests[sample.path] = {
+          duration: sample.duration,
+          samples: 1,
+          lastStatus: sample.status,
+          updatedAt: artifact.timestamp
+        };
+        continue;
+      }
+
+      tests[sample.path] = {
+        duration: sample.status === 'passed'
+          ? Math.round(smoothing * sample.duration + (1 - smoothing) * previous.duration)
+          : previous.duration,
+        samples: sample.status === 'passed' ? previous.samples + 1 : previous.samples,
+        lastStatus: sample.status,
+        updatedAt: artifact.timestamp
+      };
+    }
+  }
+
+  return {
+    schemaVersion: TIMING_SCHEMA_VERSION,
+    updatedAt: new Date().toISOString(),
+    tests
+  };
+}
+
+export class TimingCollector {
+  private shardedTimingDir: string;
+  private historyFile: string;
+  private smoothing: number;
+
+  constructor(options: TimingHistoryOptions = {}) {
+    this.shardedTimingDir = options.shardedTimingDir || 'coverage-shards';
+    this.historyFile = options.historyFile || '.jest-shard-history.json';
+    this.smoothing = options.smoothing ?? DEFAULT_SMOOTHING;
+
+    if (this.smoothing <= 0 || this.smoothing > 1) {
+      throw new Error(`Timing smoothing factor must be in (0, 1], got ${this.smoothing}`);
+    }
+  }
+
+  async collectShardTimings(
+    shardInfo: ShardInfo,
+    samples: TimingSample[],
+    options: { merge?: boolean } = {}
+  ): Promise<string> {
+    if (!fs.existsSync(this.shardedTimingDir)) {
+      fs.mkdirSync(this.shardedTimingDir, { recursive: true });
+    }
+
+    const artifactFile = path.join(this.shardedTimingDir, `timing-shard-${shardInfo.index}.json`);
+    let tests = samples.map(sample => ({ ...sample, path: toProjectPath(sample.path) }));
+
+    // A retry of only the failing files replaces just their samples
+    if (options.merge && fs.existsSync(artifactFile)) {
+      try {
+        const previous: ShardTimingArtifact = JSON.parse(await fs.promises.readFile(artifactFile, 'utf8'));
+        const rerun = new Set(tests.map(sample => sample.path));
+        tests = [...previous.tests.filter(sample => !rerun.has(sample.path)), ...tests];
+      } catch (error) {
+        console.warn(`Error reading ${artifactFile}:`, error);
+      }
+    }
+
+    const artifact: ShardTimingArtifact = {
+      schemaVersion: TIMING_SCHEMA_VERSION,
+      jestVersion: getJestVersion(),
+      timestamp: new Date().toISOString(),
+      shard: shardInfo,
+      tests
+    };
+
+    await fs.promises.writeFile(artifactFile, JSON.stringify(artifact, null, 2));
+
+    return artifactFile;
+  }
+
+  async readShardTimings(): Promise<ShardTimingArtifact[]> {
+    const files = await glob(path.join(this.shardedTimingDir, 'timing-shard-*.json'));
+    const artifacts: ShardTimingArtifact[] = [];
+
+    for (const file of files.sort()) {
+      try {
+        const artifact = JSON.parse(await fs.promises.readFile(file, 'utf8'));
+
+        if (artifact.schemaVersion !== TIMING_SCHEMA_VERSION) {
+          console.warn(`Skipping ${file}: unsupported timing schema version ${artifact.schemaVersion}`);
+          continue;
+        }
+
+        artifacts.push(artifact);
+      } catch (error) {
+        console.warn(`Error reading ${file}:`, error);
+      }
+    }
+
+    return artifacts;
+  }
+
+  async mergeHistory(options: { cleanupShardFiles?: boolean } = {}): Promise<TimingHistory> {
+    const artifacts = await this.readShardTimings();
+
+    if (artifacts.length === 0) {
+      throw new Error('No shard timing files found to merge');
+    }
+
+    const history = mergeTimingArtifacts(loadTimingHistory(this.historyFile), artifacts, this.smoothing);
+
+    // Write through a temp file so readers never see a half-written history
+    const tmpFile = `${this.historyFile}.${process.pid}.tmp`;
+    await fs.promises.writeFile(tmpFile, JSON.stringify(history, null, 2));
+    await fs.promises.rename(tmpFile, this.historyFile);
+
+    if (options.cleanupShardFiles) {
+      const files = await glob(path.join(this.shardedTimingDir, 'timing-shard-*.json'));
+      await Promise.all(files.map(file => fs.promises.unlink(file)));
+    }
+
+    return history;
+  }
+}
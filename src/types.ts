@@ -1,6 +1,8 @@
 import type { Config } from '@jest/types';
 import type { AggregatedResult, Test, TestResult } from '@jest/reporters';
-import type { CoverageMap } from 'istanbul-lib-coverage';
+import type { CoverageMap, CoverageMapData, CoverageSummaryData } from 'istanbul-lib-coverage';
+import type { Watermarks } from 'istanbul-lib-report';
+import type { CoverageInputFormat } from './coverage-formats';
 
 export interface ShardReporterOptions {
   totalShards?: number;
@@ -9,11 +11,23 @@ export interface ShardReporterOptions {
   shardedCoverageDir?: string;
   finalCoverageDir?: string;
   verbose?: boolean;
-  reportFormats?: string[];
+  /** Coverage reporters for the merged coverage; defaults to the Jest config's `coverageReporters` */
+  reportFormats?: CoverageReporterSpec[];
   cleanupShardFiles?: boolean;
   mergeCoverageOnComplete?: boolean;
+  /**
+   * Record which shard (`shards`) or which test files (`tests`) hit each
+   * source line, for `jest-shard coverage who-covers`. Off by default;
+   * `JEST_SHARD_ATTRIBUTION` sets it too
+   */
+  coverageAttribution?: CoverageAttributionLevel;
 }
 
+export type CoverageAttributionLevel = 'shards' | 'tests';
+
+/** An Istanbul reporter name, or a `[name, options]` tuple as in Jest's `coverageReporters` */
+export type CoverageReporterSpec = string | [string, Record<string, unknown>];
+
 export interface ShardInfo {
   index: number;
   total: number;
@@ -24,12 +38,397 @@ export interface CoverageFile {
   coverage: any;
 }
 
-export interface MergeOptions {
+export interface TestCounts {
+  total: number;
+  passed: number;
+  failed: number;
+  pending: number;
+}
+
+export type ShardFailureReason = 'timeout' | 'signal' | 'interrupted';
+
+export interface ShardRunResult {
+  shardId: number;
+  status: 'completed' | 'failed';
+  /** `null` when the process was killed by a signal */
+  exitCode: number | null;
+  signal: string | null;
+  duration: number;
+  attempts: number;
+  reason?: ShardFailureReason;
+  tests?: TestCounts;
+}
+
+export interface RunSummary {
+  success: boolean;
+  totalShards: number;
+  duration: number;
+  shards: ShardRunResult[];
+  tests: TestCounts;
+  quarantineExitCode: number;
+  /** Whether every test file ran in exactly one shard; unset when not checked */
+  testListCheck?: TestListCheck;
+  /** Why the shards' coverage could not be merged, e.g. a shard that failed left none */
+  coverageError?: string;
+  /** Coverage thresholds the merged coverage missed; unset when they were met or not checked */
+  thresholdViolations?: ThresholdViolation[];
+  /** The signal that stopped the run; its running shards were killed and marked interrupted */
+  interruptedBy?: 'SIGINT' | 'SIGTERM';
+}
+
+export interface TestListCheck {
+  expected: number;
+  ran: number;
+  /** Expected files no shard ran */
+  missing: string[];
+  /** Files that ran in more than one shard */
+  duplicated: { path: string; shards: number[] }[];
+  /** Files that ran although nothing expected them */
+  unexpected: string[];
+}
+
+export interface ShardStartEvent {
+  shardId: number;
+  totalShards: number;
+  /** 1 for the first run, higher for retries */
+  attempt: number;
+  pid?: number;
+  /** Files assigned to the shard; unknown in queue mode, where workers pull work as they go */
+  testFiles?: string[];
+}
+
+export interface TestResultEvent {
+  shardId: number;
+  /** Project-relative, posix separators */
+  path: string;
+  status: 'passed' | 'failed' | 'skipped';
+  duration: number;
+  numPassingTests: number;
+  numFailingTests: number;
+  numPendingTests: number;
+}
+
+export interface ShardOutputEvent {
+  shardId: number;
+  stream: 'stdout' | 'stderr';
+  /** One line of output, without the trailing newline */
+  line: string;
+}
+
+export interface CoverageMergedEvent {
+  finalCoverageDir: string;
+  coverageMap: CoverageMap;
+  summary: CoverageSummaryData;
+}
+
+/**
+ * Events emitted by `AutoShardCoordinator` during `AutoShardRunner.run()`,
+ * keyed by event name.
+ */
+export interface AutoShardEvents {
+  /** A shard process was spawned, including each retry */
+  'shard:start': ShardStartEvent;
+  /** A line a shard printed; only emitted while something listens, since output must be piped for it */
+  'shard:output': ShardOutputEvent;
+  /** A shard finished for good, after any retries */
+  'shard:complete': ShardRunResult;
+  /** A test file finished in one of the shards */
+  'test:result': TestResultEvent;
+  /** Every shard finished and the run's reports were written */
+  'run:complete': RunSummary;
+  /** The shards' coverage was merged and the final reports generated */
+  'coverage:merged': CoverageMergedEvent;
+}
+
+export interface FlakeRecord {
+  path: string;
+  shard: number;
+  attempts: number;
+  timestamp: string;
+}
+
+export interface FlakeLogFile {
+  schemaVersion: number;
+  flakes: FlakeRecord[];
+}
+
+export interface CoveragePathOptions {
+  /** Prefixes removed from every source path, e.g. another machine's checkout directory */
+  stripPrefix?: string[];
+  /** Prefix rewrites applied before `stripPrefix`, e.g. `{ '/app': '/home/runner/work/repo' }` */
+  pathMap?: Record<string, string>;
+}
+
+export interface ReportOptions {
+  /** Low and high marks per metric; defaults to Istanbul's, with the high mark from `coverageThreshold.global` */
+  watermarks?: Partial<Watermarks>;
+  /** Options for every reporter; tuple options in `reportFormats` take precedence */
+  skipEmpty?: boolean;
+  skipFull?: boolean;
+  /** Options per reporter name, applied over everything else */
+  reporterOptions?: Record<string, Record<string, unknown>>;
+}
+
+export interface MergeOptions extends CoveragePathOptions, ReportOptions {
   shardedCoverageDir?: string;
+  /** More coverage files or globs to merge with the shard files, e.g. from packages not tested with Jest */
+  inputs?: string[];
+  /** Format of `inputs`; detected from each file's extension and content when unset */
+  inputFormat?: CoverageInputFormat;
   finalCoverageDir?: string;
-  reportFormats?: string[];
+  reportFormats?: CoverageReporterSpec[];
   verbose?: boolean;
   cleanupShardFiles?: boolean;
+  coverageThreshold?: CoverageThreshold;
+  /** Jest `collectCoverageFrom` globs; matching files no shard loaded are reported with zero coverage */
+  collectCoverageFrom?: string[];
+  /**
+   * Project root: shard artifacts store source paths relative to it, and the
+   * `collectCoverageFrom` globs are resolved from it (defaults to the working directory)
+   */
+  rootDir?: string;
+  /** Run whose shards to merge; defaults to the run of the newest shard file */
+  runId?: string;
+  /** Merge around shards from other runs or with bad checksums, with a warning, instead of failing */
+  allowMismatchedShards?: boolean;
+}
+
+/** Identifies the run and the inputs a shard's coverage was produced from */
+export interface ShardRunMetadata {
+  /** Shared by every shard of one run: set by the coordinator or taken from the CI run */
+  runId?: string;
+  gitCommit?: string;
+  /** Hash of the Jest options that decide which files are instrumented and how */
+  jestConfigHash?: string;
+}
+
+export interface ShardCoverageArtifact extends ShardRunMetadata {
+  schemaVersion: number;
+  timestamp: string;
+  shard: ShardInfo;
+  /** sha256 of the JSON-serialized `coverage` */
+  checksum: string;
+  coverage: CoverageMapData;
+}
+
+/** Lines hit per source file, and with `tests` attribution, by which test file */
+export interface SourceFileAttribution {
+  lines: number[];
+  tests?: Record<string, number[]>;
+}
+
+export interface ShardAttributionArtifact {
+  schemaVersion: number;
+  timestamp: string;
+  shard: ShardInfo;
+  runId?: string;
+  level: CoverageAttributionLevel;
+  /** Keyed by project-relative source path; test paths are project-relative too */
+  files: Record<string, SourceFileAttribution>;
+}
+
+export interface CoverageAttribution {
+  /** Project-relative source path */
+  path: string;
+  /** Shards that hit the file (or the asked-for lines), by index */
+  shards: {
+    index: number;
+    lines: number[];
+    /** Unset when the shard only recorded shard-level attribution */
+    tests?: { path: string; lines: number[] }[];
+  }[];
+}
+
+export interface ShardArtifactCheck {
+  /** The run the accepted shards belong to */
+  runId?: string;
+  total?: number;
+  /** Shard indices with coverage from that run */
+  found: number[];
+  /** Indices of that run with no coverage file */
+  missing: number[];
+  /** Files left out of the merge, and why */
+  rejected: { path: string; reason: string }[];
+  /** Files without metadata (older shard files, LCOV or Cobertura drop-ins), merged unchecked */
+  unverified: string[];
+}
+
+export type CoverageMetric = 'statements' | 'branches' | 'functions' | 'lines';
+
+/**
+ * Same semantics as Jest's `coverageThreshold`: positive numbers are minimum
+ * percentages, negative numbers are the maximum number of uncovered entities.
+ */
+export type CoverageThresholdValue = Partial<Record<CoverageMetric, number>>;
+
+export type CoverageThreshold = Record<string, CoverageThresholdValue>;
+
+export interface CoverageMetricDelta {
+  /** Percentages; unset on the side where the file does not exist */
+  base?: number;
+  head?: number;
+  delta?: number;
+}
+
+export type CoverageMetricDeltas = Record<CoverageMetric, CoverageMetricDelta>;
+
+export interface FileCoverageDiff {
+  /** Project-relative path */
+  path: string;
+  status: 'added' | 'removed' | 'changed';
+  metrics: CoverageMetricDeltas;
+  /** Lines uncovered in head that were not uncovered in base */
+  newlyUncoveredLines: number[];
+}
+
+export interface ChangedLinesCoverage {
+  /** Changed lines that hold executable code */
+  total: number;
+  covered: number;
+  pct: number;
+  uncovered: { path: string; lines: number[] }[];
+}
+
+export interface CoverageDiff {
+  total: CoverageMetricDeltas;
+  /** Files whose coverage changed, sorted by path */
+  files: FileCoverageDiff[];
+  /** Only when changed lines were given */
+  changedLines?: ChangedLinesCoverage;
+}
+
+export interface ThresholdViolation {
+  target: string;
+  /** Unset when no coverage data matched the target at all */
+  metric?: CoverageMetric;
+  threshold?: number;
+  actual?: number;
+  message: string;
+}
+
+export interface TimingSample {
+  path: string;
+  duration: number;
+  status: 'passed' | 'failed';
+}
+
+export interface ShardTimingArtifact {
+  schemaVersion: number;
+  jestVersion: string;
+  timestamp: string;
+  shard: ShardInfo;
+  tests: TimingSample[];
+}
+
+export interface TimingHistoryEntry {
+  duration: number;
+  samples: number;
+  lastStatus: 'passed' | 'failed';
+  updatedAt: string;
+}
+
+export interface TimingHistory {
+  schemaVersion: number;
+  updatedAt: string;
+  tests: Record<string, TimingHistoryEntry>;
+}
+
+export interface TimingHistoryOptions {
+  shardedTimingDir?: string;
+  historyFile?: string;
+  smoothing?: number;
+}
+
+export interface TestCaseSummary {
+  title: string;
+  fullName: string;
+  status: 'passed' | 'failed' | 'pending' | 'todo' | 'skipped' | 'disabled' | 'focused';
+  duration: number;
+  failureMessages: string[];
+}
+
+export interface TestFileSummary {
+  path: string;
+  status: 'passed' | 'failed' | 'skipped';
+  duration: number;
+  numPassingTests: number;
+  numFailingTests: number;
+  numPendingTests: number;
+  failureMessage?: string;
+  testCases: TestCaseSummary[];
+}
+
+export interface ShardResultsArtifact {
+  schemaVersion: number;
+  timestamp: string;
+  shard: ShardInfo;
+  files: TestFileSummary[];
+}
+
+export interface MergedTestResults {
+  generatedAt: string;
+  totals: {
+    testFiles: number;
+    tests: number;
+    passed: number;
+    failed: number;
+    pending: number;
+    duration: number;
+  };
+  shards: { index: number; total: number; files: string[]; duration: number }[];
+  files: (TestFileSummary & { shard: number })[];
+  failures: { file: string; test: string; shard: number; message: string }[];
+}
+
+export interface ResultsReportOptions {
+  shardedResultsDir?: string;
+  outputDir?: string;
+}
+
+export interface ShardCountPrediction {
+  shards: number;
+  /** Predicted wall time of the whole run in ms */
+  wallTime: number;
+}
+
+export interface ShardCountRecommendation {
+  shards: number;
+  predictedWallTime: number;
+  targetDuration?: number;
+  /** False when even the fastest shard count is predicted to miss the target */
+  meetsTarget: boolean;
+  predictions: ShardCountPrediction[];
+}
+
+export interface StrategyDistribution {
+  strategy: string;
+  shards: { index: number; files: number; bytes: number; expectedDuration: number }[];
+  /** Slowest shard's predicted duration over the mean; 1 is a perfect split */
+  imbalance: number;
+}
+
+export interface ShardPlanFile {
+  /** Project-relative, posix separators */
+  path: string;
+  /** From the timing history; unset for files without recorded runs */
+  expectedDuration?: number;
+}
+
+export interface ShardPlanShard {
+  index: number;
+  expectedDuration: number;
+  files: ShardPlanFile[];
+}
+
+export interface ShardPlan {
+  schemaVersion: number;
+  createdAt: string;
+  strategy: string;
+  totalShards: number;
+  /** sha256 of the sorted project-relative test paths the plan was made from */
+  testListHash: string;
+  testCount: number;
+  shards: ShardPlanShard[];
 }
 
 export interface TestShardingStrategy {
@@ -38,5 +437,5 @@ export interface TestShardingStrategy {
 
 export interface CoverageMerger {
   merge(coverageFiles: CoverageFile[]): CoverageMap;
-  generateReports(coverageMap: CoverageMap, outputDir: string, formats: string[]): void;
+  generateReports(coverageMap: CoverageMap, outputDir: string, formats: CoverageReporterSpec[], options?: ReportOptions): void;
 }
\ No newline at end of file
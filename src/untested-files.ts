@@ -0,0 +1,62 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { globSync } from 'glob';
+import { CoverageMap } from 'istanbul-lib-coverage';
+import { createInstrumenter } from 'istanbul-lib-instrument';
+
+function parserPlugins(filePath: string): string[] {
+  switch (path.extname(filePath)) {
+    case '.ts':
+    case '.mts':
+    case '.cts':
+      return ['typescript', 'decorators-legacy'];
+    case '.tsx':
+      return ['typescript', 'decorators-legacy', 'jsx'];
+    default:
+      return ['jsx'];
+  }
+}
+
+/**
+ * Resolves `collectCoverageFrom` globs the way Jest does: patterns starting
+ * with `!` exclude files matched by the others.
+ */
+export function matchCoverageSources(patterns: string[], rootDir: string = process.cwd()): string[] {
+  const include = patterns.filter(pattern => !pattern.startsWith('!'));
+  const ignore = patterns.filter(pattern => pattern.startsWith('!')).map(pattern => pattern.slice(1));
+
+  if (include.length === 0) {
+    return [];
+  }
+
+  return globSync(include, { cwd: rootDir, ignore: ['**/node_modules/**', ...ignore], nodir: true, absolute: true })
+    .map(file => path.resolve(file))
+    .sort();
+}
+
+/**
+ * Adds zero-coverage entries for files matching `collectCoverageFrom` that
+ * no shard loaded, so they count against the totals and thresholds just as
+ * they would in an unsharded Jest run. Returns the files that were added.
+ */
+export function addUntestedFiles(coverageMap: CoverageMap, patterns: string[], rootDir: string = process.cwd()): string[] {
+  const covered = new Set(coverageMap.files().map(file => path.resolve(rootDir, file)));
+  const added: string[] = [];
+
+  for (const file of matchCoverageSources(patterns, rootDir)) {
+    if (covered.has(file)) {
+      continue;
+    }
+
+    try {
+      const instrumenter = createInstrumenter({ esModules: true, parserPlugins: parserPlugins(file) });
+      instrumenter.instrumentSync(fs.readFileSync(file, 'utf8'), file);
+      coverageMap.addFileCoverage(instrumenter.lastFileCoverage());
+      added.push(file);
+    } catch (error) {
+      console.warn(`Could not collect coverage for untested file ${file}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  return added;
+}
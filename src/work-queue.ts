@@ -0,0 +1,99 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+interface QueueState {
+  pending: string[];
+  claimed: Record<string, number>;
+}
+
+/**
+ * File-backed FIFO of test paths shared by the queue-mode workers.
+ * Every read-modify-write of the queue file happens under an exclusive
+ * lock file, so workers in separate processes never hand out the same test.
+ */
+export class WorkQueue {
+  private queueFile: string;
+  private mutexFile: string;
+
+  constructor(private queueDir: string) {
+    this.queueFile = path.join(queueDir, 'queue.json');
+    this.mutexFile = path.join(queueDir, 'queue.lock');
+  }
+
+  initialize(testPaths: string[]): void {
+    if (!fs.existsSync(this.queueDir)) {
+      fs.mkdirSync(this.queueDir, { recursive: true });
+    }
+
+    this.writeState({ pending: [...testPaths], claimed: {} });
+  }
+
+  async take(workerId: number, batchSize: number = 1): Promise<string[]> {
+    return this.withMutex(() => {
+      const state = this.readState();
+      const batch = state.pending.splice(0, Math.max(1, batchSize));
+
+      for (const testPath of batch) {
+        state.claimed[testPath] = workerId;
+      }
+
+      this.writeState(state);
+      return batch;
+    });
+  }
+
+  remaining(): number {
+    return this.readState().pending.length;
+  }
+
+  private readState(): QueueState {
+    try {
+      return JSON.parse(fs.readFileSync(this.queueFile, 'utf8'));
+    } catch {
+      return { pending: [], claimed: {} };
+    }
+  }
+
+  private writeState(state: QueueState): void {
+    const tmpFile = `${this.queueFile}.${process.pid}.tmp`;
+    fs.writeFileSync(tmpFile, JSON.stringify(state));
+    fs.renameSync(tmpFile, this.queueFile);
+  }
+
+  private async withMutex<T>(fn: () => T): Promise<T> {
+    let deadline = Date.now() + 30000;
+
+    for (;;) {
+      try {
+        fs.writeFileSync(this.mutexFile, String(process.pid), { flag: 'wx' });
+        break;
+      } catch (error: any) {
+        if (error.code !== 'EEXIST') {
+          throw error;
+        }
+
+        if (Date.now() > deadline) {
+          // Holder died mid-update; the state file is only ever replaced atomically
+          try {
+            fs.unlinkSync(this.mutexFile);
+          } catch {
+            // Another worker got there first
+          }
+          deadline = Date.now() + 30000;
+        }
+
+        await new Promise(resolve => setTimeout(resolve, 10 + Math.random() * 20));
+      }
+    }
+
+    try {
+      return fn();
+    } finally {
+      try {
+        fs.unlinkSync(this.mutexFile);
+      } catch {
+        // Ignore errors
+      }
+    }
+  }
+}